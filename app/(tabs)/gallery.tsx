@@ -1,4 +1,4 @@
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -7,71 +7,105 @@ import {
   TouchableOpacity,
   Dimensions,
   RefreshControl,
+  Alert,
+  TextInput,
+  ActivityIndicator,
 } from 'react-native';
 import { Image } from 'expo-image';
-import { Search, Grid, List, Download, Share2 } from 'lucide-react-native';
+import { Search, Grid, List, Download, Share2, Image as ImageIcon, Check, Trash2, SlidersHorizontal, X } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { useImageLibraryStore, useUserImages } from '@/stores/imageLibrary';
+import { useStorageProvider } from '@/stores/storageProvider';
+import { formatBytes } from '@/utils/format';
+import { getThumbnailUrl } from '@/services/thumbnails';
+import UndoDeleteBar from '@/components/UndoDeleteBar';
+import ProgressBar from '@/components/ProgressBar';
+import { useImageTransfers } from '@/hooks/useImageTransfers';
+import GalleryFilterPanel from '@/components/GalleryFilterPanel';
+import AlbumStrip from '@/components/AlbumStrip';
+import { useGalleryFiltersStore } from '@/stores/galleryFilters';
+import { useSettingsStore } from '@/stores/settings';
+import { confirmAction } from '@/stores/choiceSheet';
+import { countActiveFilters, filterImages } from '@/utils/imageFilters';
 
-interface GalleryImage {
-  id: string;
-  url: string;
-  name: string;
-  uploadedAt: Date;
-  size?: string;
-}
+const LIST_THUMBNAIL_SIZE = 60;
 
 export default function GalleryScreen() {
-  const [images] = useState<GalleryImage[]>([
-    {
-      id: '1',
-      url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400',
-      name: 'Mountain Landscape',
-      uploadedAt: new Date('2024-01-15'),
-      size: '2.4 MB'
-    },
-    {
-      id: '2', 
-      url: 'https://images.unsplash.com/photo-1441974231531-c6227db76b6e?w=400',
-      name: 'Forest Path',
-      uploadedAt: new Date('2024-01-14'),
-      size: '1.8 MB'
-    },
-    {
-      id: '3',
-      url: 'https://images.unsplash.com/photo-1469474968028-56623f02e42e?w=400', 
-      name: 'Lake View',
-      uploadedAt: new Date('2024-01-13'),
-      size: '3.1 MB'
-    },
-    {
-      id: '4',
-      url: 'https://images.unsplash.com/photo-1506905925346-21bda4d32df4?w=400',
-      name: 'Sunset Hills',
-      uploadedAt: new Date('2024-01-12'),
-      size: '2.7 MB'
-    },
-  ]);
-  const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
+  const router = useRouter();
+  const images = useUserImages();
+  const syncWithProvider = useImageLibraryStore((state) => state.syncWithProvider);
+  const storageProvider = useStorageProvider();
+  const deleteImages = useImageLibraryStore((state) => state.deleteImages);
+  const viewMode = useSettingsStore((state) => state.galleryView);
+  const setViewMode = useSettingsStore((state) => state.setGalleryView);
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const selecting = selectedIds.length > 0;
   const [refreshing, setRefreshing] = useState(false);
+  const [showFilters, setShowFilters] = useState(false);
+  const { transfers, share, download } = useImageTransfers();
+  const query = useGalleryFiltersStore((state) => state.query);
+  const filters = useGalleryFiltersStore((state) => state.filters);
+  const sort = useGalleryFiltersStore((state) => state.sort);
+  const setQuery = useGalleryFiltersStore((state) => state.setQuery);
+  const resetFilters = useGalleryFiltersStore((state) => state.reset);
+
+  const visibleImages = useMemo(
+    () => filterImages(images, query, filters, sort),
+    [images, query, filters, sort]
+  );
+  const activeFilterCount = countActiveFilters(filters);
+  const filtered = visibleImages.length !== images.length;
 
-  const onRefresh = useCallback(() => {
+  const onRefresh = useCallback(async () => {
     setRefreshing(true);
-    setTimeout(() => setRefreshing(false), 1000);
+    try {
+      await syncWithProvider(storageProvider);
+    } catch (error) {
+      console.error('Gallery sync error:', error);
+      Alert.alert('Error', `Failed to sync with ${storageProvider.name}`);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [syncWithProvider, storageProvider]);
+
+  const toggleSelected = useCallback((id: string) => {
+    setSelectedIds((ids) => (ids.includes(id) ? ids.filter((selected) => selected !== id) : [...ids, id]));
   }, []);
 
+  const openViewer = useCallback((id: string) => {
+    router.push({ pathname: '/viewer', params: { id } });
+  }, [router]);
+
+  const confirmBulkDelete = useCallback(() => {
+    const count = selectedIds.length;
+    confirmAction(
+      'Delete Images',
+      `Delete ${count} ${count === 1 ? 'image' : 'images'} from storage? You can undo this for a few seconds.`,
+      'Delete',
+      () => {
+        deleteImages(selectedIds);
+        setSelectedIds([]);
+      },
+      { destructive: true }
+    );
+  }, [selectedIds, deleteImages]);
+
   const screenWidth = Dimensions.get('window').width;
   const imageSize = viewMode === 'grid' ? (screenWidth - 60) / 2 : screenWidth - 40;
 
   const renderGridView = () => (
     <View style={styles.gallery}>
-      {images.map((image) => (
+      {visibleImages.map((image) => (
         <TouchableOpacity
           key={image.id}
           style={[styles.imageCard, { width: imageSize, height: imageSize }]}
           activeOpacity={0.8}
+          onPress={() => (selecting ? toggleSelected(image.id) : openViewer(image.id))}
+          onLongPress={() => toggleSelected(image.id)}
         >
           <Image
-            source={{ uri: image.url }}
+            source={{ uri: getThumbnailUrl(image, imageSize) }}
             style={styles.image}
             contentFit="cover"
           />
@@ -79,8 +113,13 @@ export default function GalleryScreen() {
             <Text style={styles.imageName} numberOfLines={1}>
               {image.name}
             </Text>
-            <Text style={styles.imageSize}>{image.size}</Text>
+            <Text style={styles.imageSize}>{formatBytes(image.bytes)}</Text>
           </View>
+          {selecting && (
+            <View style={[styles.selectionMark, selectedIds.includes(image.id) && styles.selectionMarkActive]}>
+              {selectedIds.includes(image.id) && <Check size={14} color="#fff" />}
+            </View>
+          )}
         </TouchableOpacity>
       ))}
     </View>
@@ -88,26 +127,50 @@ export default function GalleryScreen() {
 
   const renderListView = () => (
     <View style={styles.listContainer}>
-      {images.map((image) => (
-        <TouchableOpacity key={image.id} style={styles.listItem} activeOpacity={0.8}>
+      {visibleImages.map((image) => (
+        <TouchableOpacity
+          key={image.id}
+          style={[styles.listItem, selectedIds.includes(image.id) && styles.listItemSelected]}
+          activeOpacity={0.8}
+          onPress={() => (selecting ? toggleSelected(image.id) : openViewer(image.id))}
+          onLongPress={() => toggleSelected(image.id)}
+        >
           <Image
-            source={{ uri: image.url }}
+            source={{ uri: getThumbnailUrl(image, LIST_THUMBNAIL_SIZE) }}
             style={styles.listImage}
             contentFit="cover"
           />
           <View style={styles.listContent}>
             <Text style={styles.listTitle}>{image.name}</Text>
             <Text style={styles.listDate}>
-              {image.uploadedAt.toLocaleDateString()}
+              {new Date(image.uploadedAt).toLocaleDateString()}
             </Text>
-            <Text style={styles.listSize}>{image.size}</Text>
+            <Text style={styles.listSize}>
+              {formatBytes(image.bytes)}
+              {image.originalBytes !== undefined && ` (compressed from ${formatBytes(image.originalBytes)})`}
+            </Text>
+            {transfers[image.id] && (
+              <ProgressBar progress={transfers[image.id].progress} color="#007AFF" style={styles.transferProgress} />
+            )}
           </View>
           <View style={styles.listActions}>
-            <TouchableOpacity style={styles.actionButton}>
-              <Share2 size={18} color="#007AFF" />
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => share(image)}
+              disabled={!!transfers[image.id] || selecting}
+            >
+              {transfers[image.id]?.action === 'share'
+                ? <ActivityIndicator size="small" color="#007AFF" />
+                : <Share2 size={18} color="#007AFF" />}
             </TouchableOpacity>
-            <TouchableOpacity style={styles.actionButton}>
-              <Download size={18} color="#007AFF" />
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => download(image)}
+              disabled={!!transfers[image.id] || selecting}
+            >
+              {transfers[image.id]?.action === 'download'
+                ? <ActivityIndicator size="small" color="#007AFF" />
+                : <Download size={18} color="#007AFF" />}
             </TouchableOpacity>
           </View>
         </TouchableOpacity>
@@ -119,30 +182,73 @@ export default function GalleryScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.title}>Gallery</Text>
-        <Text style={styles.subtitle}>{images.length} images</Text>
+        <Text style={styles.subtitle}>
+          {filtered
+            ? `${visibleImages.length} of ${images.length} images`
+            : `${images.length} ${images.length === 1 ? 'image' : 'images'}`}
+        </Text>
       </View>
 
-      <View style={styles.controls}>
-        <TouchableOpacity style={styles.searchButton}>
-          <Search size={20} color="#666" />
-          <Text style={styles.searchText}>Search images...</Text>
-        </TouchableOpacity>
-        
-        <View style={styles.viewToggle}>
-          <TouchableOpacity
-            style={[styles.toggleButton, viewMode === 'grid' && styles.toggleButtonActive]}
-            onPress={() => setViewMode('grid')}
-          >
-            <Grid size={18} color={viewMode === 'grid' ? '#fff' : '#666'} />
+      {selecting ? (
+        <View style={styles.controls}>
+          <Text style={styles.selectionText}>{selectedIds.length} selected</Text>
+          <TouchableOpacity style={styles.selectionButton} onPress={() => setSelectedIds(visibleImages.map((image) => image.id))}>
+            <Text style={styles.selectionButtonText}>Select All</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.selectionButton} onPress={confirmBulkDelete}>
+            <Trash2 size={18} color="#FF3B30" />
           </TouchableOpacity>
+          <TouchableOpacity style={styles.selectionButton} onPress={() => setSelectedIds([])}>
+            <Text style={styles.selectionButtonText}>Cancel</Text>
+          </TouchableOpacity>
+        </View>
+      ) : (
+        <View style={styles.controls}>
+          <View style={styles.searchBox}>
+            <Search size={20} color="#666" />
+            <TextInput
+              style={styles.searchInput}
+              value={query}
+              onChangeText={setQuery}
+              placeholder="Search images..."
+              placeholderTextColor="#666"
+              autoCapitalize="none"
+              autoCorrect={false}
+              returnKeyType="search"
+            />
+            {query.length > 0 && (
+              <TouchableOpacity onPress={() => setQuery('')}>
+                <X size={18} color="#666" />
+              </TouchableOpacity>
+            )}
+          </View>
+
           <TouchableOpacity
-            style={[styles.toggleButton, viewMode === 'list' && styles.toggleButtonActive]}
-            onPress={() => setViewMode('list')}
+            style={[styles.filterButton, (showFilters || activeFilterCount > 0) && styles.filterButtonActive]}
+            onPress={() => setShowFilters((visible) => !visible)}
           >
-            <List size={18} color={viewMode === 'list' ? '#fff' : '#666'} />
+            <SlidersHorizontal size={18} color={showFilters || activeFilterCount > 0 ? '#fff' : '#666'} />
+            {activeFilterCount > 0 && <Text style={styles.filterCount}>{activeFilterCount}</Text>}
           </TouchableOpacity>
+
+          <View style={styles.viewToggle}>
+            <TouchableOpacity
+              style={[styles.toggleButton, viewMode === 'grid' && styles.toggleButtonActive]}
+              onPress={() => setViewMode('grid')}
+            >
+              <Grid size={18} color={viewMode === 'grid' ? '#fff' : '#666'} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={[styles.toggleButton, viewMode === 'list' && styles.toggleButtonActive]}
+              onPress={() => setViewMode('list')}
+            >
+              <List size={18} color={viewMode === 'list' ? '#fff' : '#666'} />
+            </TouchableOpacity>
+          </View>
         </View>
-      </View>
+      )}
+      {showFilters && !selecting && <GalleryFilterPanel />}
+      {!selecting && <AlbumStrip images={images} />}
 
       <ScrollView
         style={styles.content}
@@ -151,8 +257,23 @@ export default function GalleryScreen() {
           <RefreshControl refreshing={refreshing} onRefresh={onRefresh} />
         }
       >
-        {viewMode === 'grid' ? renderGridView() : renderListView()}
+        {images.length === 0 ? (
+          <View style={styles.emptyState}>
+            <ImageIcon size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No images yet</Text>
+            <Text style={styles.emptySubtext}>Uploaded images will appear here</Text>
+          </View>
+        ) : visibleImages.length === 0 ? (
+          <View style={styles.emptyState}>
+            <Search size={64} color="#ccc" />
+            <Text style={styles.emptyText}>No matching images</Text>
+            <TouchableOpacity onPress={resetFilters}>
+              <Text style={styles.clearFiltersText}>Clear search and filters</Text>
+            </TouchableOpacity>
+          </View>
+        ) : viewMode === 'grid' ? renderGridView() : renderListView()}
       </ScrollView>
+      <UndoDeleteBar />
     </SafeAreaView>
   );
 }
@@ -188,7 +309,7 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#e5e5e5',
   },
-  searchButton: {
+  searchBox: {
     flex: 1,
     flexDirection: 'row',
     alignItems: 'center',
@@ -196,12 +317,32 @@ const styles = StyleSheet.create({
     paddingHorizontal: 12,
     paddingVertical: 10,
     borderRadius: 8,
-    marginRight: 12,
+    marginRight: 8,
   },
-  searchText: {
+  searchInput: {
+    flex: 1,
     marginLeft: 8,
+    padding: 0,
     fontSize: 16,
-    color: '#666',
+    color: '#1a1a1a',
+  },
+  filterButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 10,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+    marginRight: 8,
+  },
+  filterButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  filterCount: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#fff',
   },
   viewToggle: {
     flexDirection: 'row',
@@ -274,9 +415,13 @@ const styles = StyleSheet.create({
     shadowRadius: 2,
     elevation: 2,
   },
+  listItemSelected: {
+    borderWidth: 2,
+    borderColor: '#007AFF',
+  },
   listImage: {
-    width: 60,
-    height: 60,
+    width: LIST_THUMBNAIL_SIZE,
+    height: LIST_THUMBNAIL_SIZE,
     borderRadius: 8,
   },
   listContent: {
@@ -299,6 +444,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     color: '#999',
   },
+  transferProgress: {
+    marginTop: 6,
+  },
   listActions: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -309,4 +457,57 @@ const styles = StyleSheet.create({
     borderRadius: 6,
     backgroundColor: '#f0f8ff',
   },
+  selectionMark: {
+    position: 'absolute',
+    top: 8,
+    right: 8,
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: '#fff',
+    backgroundColor: 'rgba(0, 0, 0, 0.3)',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  selectionMarkActive: {
+    backgroundColor: '#007AFF',
+  },
+  selectionText: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  selectionButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 4,
+  },
+  selectionButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    paddingVertical: 60,
+  },
+  emptyText: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#666',
+    marginTop: 16,
+    marginBottom: 4,
+  },
+  emptySubtext: {
+    fontSize: 14,
+    color: '#999',
+  },
+  clearFiltersText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
 });
\ No newline at end of file
@@ -11,67 +11,100 @@ import {
 } from 'react-native';
 import { Image } from 'expo-image';
 import * as ImagePicker from 'expo-image-picker';
+import { useRouter } from 'expo-router';
 import { Upload, Image as ImageIcon, X, Camera, FolderOpen } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
-import { uploadImageToFirebase } from '@/services/firebase';
+import { useStorageProvider } from '@/stores/storageProvider';
+import { useImageLibraryStore, useUserImages, LibraryImage } from '@/stores/imageLibrary';
+import { getStorageProvider } from '@/services/storage';
+import { useUploadQueueStore, getQueueProgress, isActiveStatus, UploadRequest } from '@/stores/uploadQueue';
+import { useImageEditorStore } from '@/stores/imageEditor';
+import { confirmAction } from '@/stores/choiceSheet';
+import { getValidationLimits, describeLimits } from '@/services/validation';
+import { getThumbnailUrl } from '@/services/thumbnails';
+import { isHeifFileName, renameForFormat } from '@/services/compression';
+import UploadQueueList from '@/components/UploadQueueList';
+import RejectedFilesList from '@/components/RejectedFilesList';
+import ConfigWarning from '@/components/ConfigWarning';
+import UploadTargetPicker from '@/components/UploadTargetPicker';
+import UndoDeleteBar from '@/components/UndoDeleteBar';
+import OutboxList from '@/components/OutboxList';
+import ProgressBar from '@/components/ProgressBar';
+import { formatBytes } from '@/utils/format';
 
-interface UploadedImage {
-  id: string;
-  url: string;
-  name: string;
-  uploadedAt: Date;
-}
+const readFileAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = (event) => resolve(event.target?.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
 
 export default function ImageUploadScreen() {
-  const [uploadedImages, setUploadedImages] = useState<UploadedImage[]>([]);
-  const [uploading, setUploading] = useState(false);
+  const router = useRouter();
+  const uploadedImages = useUserImages();
+  const deleteImages = useImageLibraryStore((state) => state.deleteImages);
+  const queueItems = useUploadQueueStore((state) => state.items);
+  const submitImages = useUploadQueueStore((state) => state.submit);
+  const rejections = useUploadQueueStore((state) => state.rejections);
+  const clearRejections = useUploadQueueStore((state) => state.clearRejections);
+  const openEditor = useImageEditorStore((state) => state.open);
   const [dragActive, setDragActive] = useState(false);
+  const storageProvider = useStorageProvider();
 
-  const handleImageUpload = useCallback(async (uri: string, fileName: string) => {
-    try {
-      setUploading(true);
-      const downloadURL = await uploadImageToFirebase(uri, fileName);
-      
-      const newImage: UploadedImage = {
-        id: Date.now().toString(),
-        url: downloadURL,
-        name: fileName,
-        uploadedAt: new Date(),
-      };
-      
-      setUploadedImages(prev => [newImage, ...prev]);
-      Alert.alert('Success', 'Image uploaded successfully!');
-    } catch (error) {
-      console.error('Upload error:', error);
-      Alert.alert('Error', 'Failed to upload image. Please try again.');
-    } finally {
-      setUploading(false);
+  const activeUploads = queueItems.filter((item) => isActiveStatus(item.status));
+  const uploading = activeUploads.length > 0;
+  const progress = getQueueProgress(activeUploads);
+
+  const confirmDelete = useCallback((image: LibraryImage) => {
+    confirmAction(
+      'Delete Image',
+      `Delete "${image.name}" from ${getStorageProvider(image.provider).name}? You can undo this for a few seconds.`,
+      'Delete',
+      () => deleteImages([image.id]),
+      { destructive: true }
+    );
+  }, [deleteImages]);
+
+  // A single image goes through the editor first; batches are uploaded as picked
+  const submitOrEdit = useCallback(async (requests: UploadRequest[]) => {
+    if (requests.length === 1) {
+      openEditor(requests[0]);
+      router.push('/editor');
+      return;
     }
-  }, []);
+    await submitImages(requests);
+  }, [openEditor, router, submitImages]);
 
   const pickImage = useCallback(async () => {
     try {
       const result = await ImagePicker.launchImageLibraryAsync({
         mediaTypes: ImagePicker.MediaTypeOptions.Images,
-        allowsEditing: true,
-        aspect: [4, 3],
-        quality: 0.8,
+        allowsMultipleSelection: true,
+        // Full quality keeps the original file and its EXIF; compression is left to the upload
+        // pipeline, which only applies it when High Quality is off
+        quality: 1,
+        // iOS hands back a JPEG copy of HEIC photos, which the providers don't accept
+        preferredAssetRepresentationMode: ImagePicker.UIImagePickerPreferredAssetRepresentationMode.Compatible,
       });
 
-      if (!result.canceled && result.assets[0]) {
-        const asset = result.assets[0];
-        const fileName = asset.fileName || `image_${Date.now()}.jpg`;
-        await handleImageUpload(asset.uri, fileName);
+      if (!result.canceled && result.assets.length > 0) {
+        await submitOrEdit(result.assets.map((asset, index) => ({
+          uri: asset.uri,
+          // The converted copy keeps the original's .HEIC name
+          fileName: asset.fileName
+            ? (isHeifFileName(asset.fileName) ? renameForFormat(asset.fileName, 'jpeg') : asset.fileName)
+            : `image_${Date.now()}_${index}.jpg`,
+          width: asset.width,
+          height: asset.height,
+          assetId: asset.assetId ?? undefined,
+        })));
       }
     } catch (error) {
       console.error('Image picker error:', error);
       Alert.alert('Error', 'Failed to pick image');
     }
-  }, [handleImageUpload]);
-
-  const removeImage = useCallback((id: string) => {
-    setUploadedImages(prev => prev.filter(img => img.id !== id));
-  }, []);
+  }, [submitOrEdit]);
 
   // Web-specific drag and drop handlers
   const handleDragOver = useCallback((e: any) => {
@@ -93,22 +126,14 @@ export default function ImageUploadScreen() {
       e.preventDefault();
       setDragActive(false);
       
-      const files = e.dataTransfer.files;
+      // The file type is checked from its content during validation, not from the browser's guess
+      const files: File[] = Array.from(e.dataTransfer.files);
       if (files.length > 0) {
-        const file = files[0];
-        if (file.type.startsWith('image/')) {
-          const reader = new FileReader();
-          reader.onload = async (event) => {
-            const dataUrl = event.target?.result as string;
-            await handleImageUpload(dataUrl, file.name);
-          };
-          reader.readAsDataURL(file);
-        } else {
-          Alert.alert('Error', 'Please select an image file');
-        }
+        const dataUrls = await Promise.all(files.map(readFileAsDataUrl));
+        await submitOrEdit(files.map((file, index) => ({ uri: dataUrls[index], fileName: file.name })));
       }
     }
-  }, [handleImageUpload]);
+  }, [submitOrEdit]);
 
   const screenWidth = Dimensions.get('window').width;
   const imageSize = (screenWidth - 60) / 2;
@@ -117,12 +142,15 @@ export default function ImageUploadScreen() {
     <SafeAreaView style={styles.container} edges={['top']}>
       <View style={styles.header}>
         <Text style={styles.title}>Upload</Text>
-        <Text style={styles.subtitle}>Upload your images to Firebase Storage</Text>
+        <Text style={styles.subtitle}>Upload your images to {storageProvider.name}</Text>
       </View>
       
       <ScrollView style={styles.content} contentContainerStyle={styles.contentContainer}>
 
       {/* Upload Zone */}
+      <ConfigWarning provider={storageProvider} />
+      <UploadTargetPicker />
+
       <TouchableOpacity
         style={[
           styles.uploadZone,
@@ -130,7 +158,6 @@ export default function ImageUploadScreen() {
           uploading && styles.uploadZoneUploading,
         ]}
         onPress={pickImage}
-        disabled={uploading}
         {...(Platform.OS === 'web' && {
           onDragOver: handleDragOver,
           onDragLeave: handleDragLeave,
@@ -143,7 +170,16 @@ export default function ImageUploadScreen() {
               <View style={styles.uploadingIcon}>
                 <Upload size={32} color="#007AFF" />
               </View>
-              <Text style={styles.uploadingText}>Uploading...</Text>
+              <Text style={styles.uploadingText}>
+                Uploading {activeUploads.length} {activeUploads.length === 1 ? 'image' : 'images'} · {Math.round(progress.fraction * 100)}%
+              </Text>
+              <ProgressBar progress={progress.fraction} color="#FF9500" style={styles.uploadProgress} />
+              <Text style={styles.uploadBytes}>
+                {formatBytes(progress.bytesTransferred)} of {progress.totalBytes > 0 ? formatBytes(progress.totalBytes) : '…'}
+              </Text>
+              <Text style={styles.uploadSubtext}>
+                {Platform.OS === 'web' ? 'Drop or click to add more' : 'Tap to add more'}
+              </Text>
             </>
           ) : (
             <>
@@ -154,13 +190,17 @@ export default function ImageUploadScreen() {
                 {Platform.OS === 'web' ? 'Drag & drop images here or click to browse' : 'Tap to select images'}
               </Text>
               <Text style={styles.uploadSubtext}>
-                Supports JPG, PNG, GIF up to 10MB
+                {describeLimits(getValidationLimits(storageProvider.id))}
               </Text>
             </>
           )}
         </View>
       </TouchableOpacity>
 
+      <RejectedFilesList rejections={rejections} onDismiss={clearRejections} />
+      <UploadQueueList />
+      <OutboxList />
+
       {/* Uploaded Images Gallery */}
       {uploadedImages.length > 0 && (
         <View style={styles.gallerySection}>
@@ -169,13 +209,13 @@ export default function ImageUploadScreen() {
             {uploadedImages.map((image) => (
               <View key={image.id} style={[styles.imageCard, { width: imageSize, height: imageSize }]}>
                 <Image
-                  source={{ uri: image.url }}
+                  source={{ uri: getThumbnailUrl(image, imageSize) }}
                   style={styles.image}
                   contentFit="cover"
                 />
                 <TouchableOpacity
                   style={styles.removeButton}
-                  onPress={() => removeImage(image.id)}
+                  onPress={() => confirmDelete(image)}
                 >
                   <X size={16} color="#fff" />
                 </TouchableOpacity>
@@ -184,7 +224,7 @@ export default function ImageUploadScreen() {
                     {image.name}
                   </Text>
                   <Text style={styles.imageDate}>
-                    {image.uploadedAt.toLocaleDateString()}
+                    {new Date(image.uploadedAt).toLocaleDateString()}
                   </Text>
                 </View>
               </View>
@@ -202,7 +242,7 @@ export default function ImageUploadScreen() {
           
           <TouchableOpacity 
             style={styles.quickActionButton} 
-            onPress={() => Alert.alert('Camera', 'Camera feature coming soon!')}
+            onPress={() => router.push('/camera')}
           >
             <Camera size={24} color="#007AFF" />
             <Text style={styles.quickActionText}>Take Photo</Text>
@@ -217,6 +257,7 @@ export default function ImageUploadScreen() {
           </View>
         )}
       </ScrollView>
+      <UndoDeleteBar />
     </SafeAreaView>
   );
 }
@@ -301,6 +342,17 @@ const styles = StyleSheet.create({
     fontSize: 16,
     fontWeight: '600',
     color: '#FF9500',
+    marginBottom: 4,
+  },
+  uploadProgress: {
+    width: 200,
+    marginTop: 8,
+    marginBottom: 6,
+  },
+  uploadBytes: {
+    fontSize: 12,
+    color: '#666',
+    marginBottom: 8,
   },
   uploadSubtext: {
     fontSize: 14,
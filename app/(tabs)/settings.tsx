@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React from 'react';
 import {
   View,
   Text,
@@ -7,6 +7,7 @@ import {
   TouchableOpacity,
   Switch,
   Alert,
+  Linking,
 } from 'react-native';
 import {
   Settings as SettingsIcon,
@@ -20,8 +21,43 @@ import {
   ChevronRight,
   Trash2,
   Download,
+  Cloud,
+  Layers,
+  CloudOff,
+  Minimize2,
+  SlidersHorizontal,
+  FileImage,
+  Stethoscope,
+  Upload,
+  HardDrive,
+  RotateCcw,
+  Wifi,
+  BatteryCharging,
 } from 'lucide-react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
+import { useRouter } from 'expo-router';
+import { getStorageProviders } from '@/services/storage';
+import { isConfigured } from '@/services/config';
+import { useStorageProvider, useStorageProviderStore } from '@/stores/storageProvider';
+import { useSettingsStore } from '@/stores/settings';
+import { useOutboxStore } from '@/stores/outbox';
+import { useAuthStore } from '@/stores/auth';
+import { showToast } from '@/stores/toast';
+import { showChoices, confirmAction } from '@/stores/choiceSheet';
+import { drainOutbox } from '@/hooks/useOutboxSync';
+import { useLibraryArchive } from '@/hooks/useLibraryArchive';
+import { useCacheManager } from '@/hooks/useCacheManager';
+import { CACHE_CATEGORY_LABELS, CACHE_LIMIT_OPTIONS, CacheCategory } from '@/services/cache';
+import { formatBytes } from '@/utils/format';
+import { areNotificationsSupported, ensureNotificationPermission } from '@/services/notifications';
+import { BACKUP_BLOCKER_LABELS, isAutoBackupSupported, requestLibraryPermission } from '@/services/autoBackup';
+import { useAutoBackupStore } from '@/stores/autoBackup';
+import { useUserImages } from '@/stores/imageLibrary';
+import type { CompressionFormat } from '@/services/compression';
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+const MAX_DIMENSION_OPTIONS = [1280, 1920, 2560, 4096];
+const QUALITY_OPTIONS = [0.6, 0.7, 0.8, 0.9];
 
 interface SettingItem {
   id: string;
@@ -35,9 +71,171 @@ interface SettingItem {
 }
 
 export default function SettingsScreen() {
-  const [autoUpload, setAutoUpload] = useState(false);
-  const [notifications, setNotifications] = useState(true);
-  const [highQuality, setHighQuality] = useState(true);
+  const router = useRouter();
+  const user = useAuthStore((state) => state.user);
+  const misconfigured = getStorageProviders()
+    .filter((provider) => !isConfigured(provider.id))
+    .map((provider) => provider.name);
+  const autoUpload = useSettingsStore((state) => state.autoUpload);
+  const setAutoUpload = useSettingsStore((state) => state.setAutoUpload);
+  const wifiOnly = useSettingsStore((state) => state.wifiOnly);
+  const setWifiOnly = useSettingsStore((state) => state.setWifiOnly);
+  const chargingOnly = useSettingsStore((state) => state.chargingOnly);
+  const setChargingOnly = useSettingsStore((state) => state.setChargingOnly);
+  const backupScanning = useAutoBackupStore((state) => state.scanning);
+  const backupBlocker = useAutoBackupStore((state) => state.blocker);
+  const backupCheckedAt = useAutoBackupStore((state) => state.lastCheckedAt);
+  const outboxEntries = useOutboxStore((state) => state.entries);
+  const discardOutbox = useOutboxStore((state) => state.discardAll);
+  const notifications = useSettingsStore((state) => state.notifications);
+  const setNotifications = useSettingsStore((state) => state.setNotifications);
+  const highQuality = useSettingsStore((state) => state.highQuality);
+  const setHighQuality = useSettingsStore((state) => state.setHighQuality);
+  const compression = useSettingsStore((state) => state.compression);
+  const setCompression = useSettingsStore((state) => state.setCompression);
+  const stripMetadata = useSettingsStore((state) => state.stripMetadata);
+  const setStripMetadata = useSettingsStore((state) => state.setStripMetadata);
+  const storageProvider = useStorageProvider();
+  const setProviderId = useStorageProviderStore((state) => state.setProviderId);
+
+  const libraryImages = useUserImages();
+  const { exportProgress, importing, exportAll, importArchive } = useLibraryArchive(libraryImages);
+  const cacheLimit = useSettingsStore((state) => state.cacheLimit);
+  const setCacheLimit = useSettingsStore((state) => state.setCacheLimit);
+  const { usage: cacheUsage, clearing: clearingCache, clear: clearCache } = useCacheManager();
+
+  const concurrency = useSettingsStore((state) => state.uploadConcurrency);
+  const setConcurrency = useSettingsStore((state) => state.setUploadConcurrency);
+  const resetSettings = useSettingsStore((state) => state.resetSettings);
+
+  const chooseConcurrency = () => {
+    showChoices(
+      'Parallel Uploads',
+      'How many images to upload at the same time',
+      CONCURRENCY_OPTIONS.map((option) => ({
+        label: `${option}`,
+        selected: option === concurrency,
+        onPress: () => setConcurrency(option),
+      }))
+    );
+  };
+
+  // The storage provider, albums and pending uploads are left as they are
+  const confirmReset = () => {
+    confirmAction(
+      'Reset Settings',
+      'Restore upload, notification, cache and display settings to their defaults?',
+      'Reset',
+      () => {
+        resetSettings();
+        showToast('Settings reset', 'All settings are back to their defaults');
+      },
+      { destructive: true }
+    );
+  };
+
+  const chooseOption = <T,>(title: string, message: string, options: { label: string; value: T }[], current: T, onSelect: (value: T) => void) => {
+    showChoices(
+      title,
+      message,
+      options.map((option) => ({
+        label: option.label,
+        selected: option.value === current,
+        onPress: () => onSelect(option.value),
+      }))
+    );
+  };
+
+  const toggleAutoUpload = async () => {
+    setAutoUpload(!autoUpload);
+    if (autoUpload || !isAutoBackupSupported()) return;
+
+    // Pending uploads are still retried without access; only new photos can't be found
+    if (!(await requestLibraryPermission())) {
+      Alert.alert(
+        'Photo Access Needed',
+        'Allow access to your photos in your device settings so new photos can be uploaded automatically.',
+        [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'Open Settings', onPress: () => Linking.openSettings() },
+        ]
+      );
+      return;
+    }
+    showToast('Auto Upload is on', 'Photos you take from now on will be uploaded');
+  };
+
+  const autoUploadStatus = () => {
+    if (!autoUpload) return 'Upload new photos from your library automatically';
+    if (!isAutoBackupSupported()) return 'Pending uploads are sent when you are back online';
+    if (backupScanning) return 'Checking for new photos…';
+    if (backupBlocker) return BACKUP_BLOCKER_LABELS[backupBlocker];
+    return backupCheckedAt
+      ? `Last checked ${new Date(backupCheckedAt).toLocaleString()}`
+      : 'New photos will be uploaded';
+  };
+
+  const toggleNotifications = async () => {
+    setNotifications(!notifications);
+    if (notifications || !areNotificationsSupported()) return;
+
+    // Upload results still show in the app without permission, just not while it's in the background
+    if (!(await ensureNotificationPermission())) {
+      Alert.alert(
+        'Notifications Are Off',
+        'Allow notifications for this app in your device settings to hear about uploads that finish in the background.',
+        [
+          { text: 'Not Now', style: 'cancel' },
+          { text: 'Open Settings', onPress: () => Linking.openSettings() },
+        ]
+      );
+    }
+  };
+
+  const manageCache = () => {
+    const breakdown = cacheUsage
+      ? (Object.keys(CACHE_CATEGORY_LABELS) as CacheCategory[])
+        .map((category) => `${CACHE_CATEGORY_LABELS[category]}: ${formatBytes(cacheUsage.byCategory[category])}`)
+        .join('\n')
+      : 'The browser manages cached images on the web.';
+    showChoices(
+      'Clear Cache',
+      `${breakdown}\n\nFiles still needed by the upload queue or pending uploads are kept.`,
+      [
+        { label: 'Thumbnails Only', subtitle: 'Thumbnails and edited copies', onPress: () => clearCache('thumbnails') },
+        { label: 'Failed Uploads', subtitle: 'Files of failed and cancelled uploads', onPress: () => clearCache('failed') },
+        { label: 'Everything', destructive: true, onPress: () => clearCache('everything') },
+      ]
+    );
+  };
+
+  const managePendingUploads = () => {
+    if (outboxEntries.length === 0) {
+      showToast('Pending Uploads', 'No uploads are waiting for a connection.', 'info');
+      return;
+    }
+    showChoices(
+      'Pending Uploads',
+      `${outboxEntries.length} ${outboxEntries.length === 1 ? 'upload is' : 'uploads are'} waiting for a connection.`,
+      [
+        { label: 'Upload Now', onPress: drainOutbox },
+        { label: 'Discard All', destructive: true, onPress: discardOutbox },
+      ]
+    );
+  };
+
+  const chooseStorageProvider = () => {
+    showChoices(
+      'Storage Provider',
+      'Choose where new uploads are stored',
+      getStorageProviders().map((provider) => ({
+        label: provider.name,
+        subtitle: isConfigured(provider.id) ? undefined : 'Not configured',
+        selected: provider.id === storageProvider.id,
+        onPress: () => setProviderId(provider.id),
+      }))
+    );
+  };
 
   const settingSections = [
     {
@@ -46,34 +244,135 @@ export default function SettingsScreen() {
         {
           id: 'profile',
           title: 'Profile',
-          subtitle: 'Manage your account settings',
+          subtitle: user ? (user.isAnonymous ? 'Guest — sign in to keep your uploads' : user.email ?? 'Signed in') : 'Not signed in',
           icon: <User size={20} color="#007AFF" />,
           type: 'navigation' as const,
-          onPress: () => Alert.alert('Profile', 'Profile settings coming soon!'),
+          onPress: () => router.push('/profile'),
         },
       ],
     },
     {
       title: 'Upload Settings',
       items: [
+        {
+          id: 'storage-provider',
+          title: 'Storage Provider',
+          subtitle: storageProvider.name,
+          icon: <Cloud size={20} color="#007AFF" />,
+          type: 'navigation' as const,
+          onPress: chooseStorageProvider,
+        },
+        {
+          id: 'concurrency',
+          title: 'Parallel Uploads',
+          subtitle: `${concurrency} at a time`,
+          icon: <Layers size={20} color="#5856D6" />,
+          type: 'navigation' as const,
+          onPress: chooseConcurrency,
+        },
         {
           id: 'auto-upload',
           title: 'Auto Upload',
-          subtitle: 'Automatically upload selected photos',
+          subtitle: autoUploadStatus(),
           icon: <Database size={20} color="#34C759" />,
           type: 'toggle' as const,
           value: autoUpload,
-          onPress: () => setAutoUpload(!autoUpload),
+          onPress: toggleAutoUpload,
+        },
+        ...(autoUpload && isAutoBackupSupported() ? [
+          {
+            id: 'wifi-only',
+            title: 'Wi-Fi Only',
+            subtitle: wifiOnly ? 'New photos wait for Wi-Fi' : 'Mobile data is used too',
+            icon: <Wifi size={20} color="#007AFF" />,
+            type: 'toggle' as const,
+            value: wifiOnly,
+            onPress: () => setWifiOnly(!wifiOnly),
+          },
+          {
+            id: 'charging-only',
+            title: 'Only While Charging',
+            subtitle: chargingOnly ? 'New photos wait until the device is charging' : 'Uploads run on battery too',
+            icon: <BatteryCharging size={20} color="#34C759" />,
+            type: 'toggle' as const,
+            value: chargingOnly,
+            onPress: () => setChargingOnly(!chargingOnly),
+          },
+        ] : []),
+        {
+          id: 'pending-uploads',
+          title: 'Pending Uploads',
+          subtitle: outboxEntries.length > 0
+            ? `${outboxEntries.length} waiting for a connection`
+            : 'Nothing waiting',
+          icon: <CloudOff size={20} color="#FF9500" />,
+          type: 'navigation' as const,
+          onPress: managePendingUploads,
         },
         {
           id: 'high-quality',
           title: 'High Quality Upload',
-          subtitle: 'Upload images in original quality',
+          subtitle: highQuality ? 'Upload images in original quality' : 'Images are resized and compressed before upload',
           icon: <Palette size={20} color="#FF9500" />,
           type: 'toggle' as const,
           value: highQuality,
           onPress: () => setHighQuality(!highQuality),
         },
+        ...(highQuality ? [] : [
+          {
+            id: 'max-dimension',
+            title: 'Maximum Size',
+            subtitle: `Longest side up to ${compression.maxDimension}px`,
+            icon: <Minimize2 size={20} color="#5856D6" />,
+            type: 'navigation' as const,
+            onPress: () => chooseOption(
+              'Maximum Size',
+              'Larger images are scaled down before upload',
+              MAX_DIMENSION_OPTIONS.map((value) => ({ label: `${value}px`, value })),
+              compression.maxDimension,
+              (maxDimension) => setCompression({ maxDimension })
+            ),
+          },
+          {
+            id: 'compression-quality',
+            title: 'Compression Quality',
+            subtitle: `${Math.round(compression.quality * 100)}%`,
+            icon: <SlidersHorizontal size={20} color="#5856D6" />,
+            type: 'navigation' as const,
+            onPress: () => chooseOption(
+              'Compression Quality',
+              'Lower quality gives smaller files',
+              QUALITY_OPTIONS.map((value) => ({ label: `${Math.round(value * 100)}%`, value })),
+              compression.quality,
+              (quality) => setCompression({ quality })
+            ),
+          },
+          {
+            id: 'compression-format',
+            title: 'Output Format',
+            subtitle: compression.format === 'webp' ? 'WebP' : 'JPEG',
+            icon: <FileImage size={20} color="#5856D6" />,
+            type: 'navigation' as const,
+            onPress: () => chooseOption<CompressionFormat>(
+              'Output Format',
+              'Format images are re-encoded to',
+              [{ label: 'JPEG', value: 'jpeg' }, { label: 'WebP', value: 'webp' }],
+              compression.format,
+              (format) => setCompression({ format })
+            ),
+          },
+        ]),
+        {
+          id: 'strip-metadata',
+          title: 'Remove Location & Metadata',
+          subtitle: stripMetadata
+            ? 'GPS, camera and other EXIF data are removed before upload'
+            : 'Photos are uploaded with their EXIF data, including location',
+          icon: <Shield size={20} color="#34C759" />,
+          type: 'toggle' as const,
+          value: stripMetadata,
+          onPress: () => setStripMetadata(!stripMetadata),
+        },
       ],
     },
     {
@@ -86,7 +385,7 @@ export default function SettingsScreen() {
           icon: <Bell size={20} color="#FF3B30" />,
           type: 'toggle' as const,
           value: notifications,
-          onPress: () => setNotifications(!notifications),
+          onPress: toggleNotifications,
         },
       ],
     },
@@ -96,27 +395,46 @@ export default function SettingsScreen() {
         {
           id: 'export',
           title: 'Export Data',
-          subtitle: 'Download all your uploaded images',
+          subtitle: exportProgress
+            ? `Exporting ${exportProgress.completed} of ${exportProgress.total}…`
+            : 'Download all your images and their details as a ZIP',
           icon: <Download size={20} color="#007AFF" />,
           type: 'action' as const,
-          onPress: () => Alert.alert('Export', 'Export feature coming soon!'),
+          onPress: exportProgress ? undefined : exportAll,
+        },
+        {
+          id: 'import',
+          title: 'Import Data',
+          subtitle: importing ? 'Reading archive…' : 'Restore your library from an exported ZIP',
+          icon: <Upload size={20} color="#007AFF" />,
+          type: 'action' as const,
+          onPress: importing ? undefined : importArchive,
         },
         {
           id: 'clear-cache',
           title: 'Clear Cache',
-          subtitle: 'Free up storage space',
+          subtitle: clearingCache
+            ? 'Clearing…'
+            : cacheUsage
+              ? `${formatBytes(cacheUsage.total)} used`
+              : 'Free up storage space',
           icon: <Trash2 size={20} color="#FF9500" />,
           type: 'action' as const,
-          onPress: () => {
-            Alert.alert(
-              'Clear Cache',
-              'This will clear all cached images. Continue?',
-              [
-                { text: 'Cancel', style: 'cancel' },
-                { text: 'Clear', style: 'destructive', onPress: () => {} },
-              ]
-            );
-          },
+          onPress: clearingCache ? undefined : manageCache,
+        },
+        {
+          id: 'cache-limit',
+          title: 'Cache Size Limit',
+          subtitle: `Least recently used files are removed above ${formatBytes(cacheLimit)}`,
+          icon: <HardDrive size={20} color="#5856D6" />,
+          type: 'navigation' as const,
+          onPress: () => chooseOption(
+            'Cache Size Limit',
+            'Cached images, thumbnails and downloads are trimmed to this size',
+            CACHE_LIMIT_OPTIONS.map((value) => ({ label: formatBytes(value), value })),
+            cacheLimit,
+            setCacheLimit
+          ),
         },
       ],
     },
@@ -131,6 +449,16 @@ export default function SettingsScreen() {
           type: 'navigation' as const,
           onPress: () => Alert.alert('Help', 'Help center coming soon!'),
         },
+        {
+          id: 'diagnostics',
+          title: 'Diagnostics',
+          subtitle: misconfigured.length > 0
+            ? `${misconfigured.join(' and ')} ${misconfigured.length === 1 ? 'needs' : 'need'} configuration`
+            : 'All providers configured',
+          icon: <Stethoscope size={20} color={misconfigured.length > 0 ? '#FF3B30' : '#666'} />,
+          type: 'navigation' as const,
+          onPress: () => router.push('/diagnostics'),
+        },
         {
           id: 'about',
           title: 'About',
@@ -139,6 +467,15 @@ export default function SettingsScreen() {
           type: 'navigation' as const,
           onPress: () => Alert.alert('About', 'Image Upload App v1.0.0\nBuilt with React Native & Expo'),
         },
+        {
+          id: 'reset',
+          title: 'Reset to Defaults',
+          subtitle: 'Restore upload, notification and cache preferences',
+          icon: <RotateCcw size={20} color="#FF3B30" />,
+          type: 'action' as const,
+          onPress: confirmReset,
+          destructive: true,
+        },
       ],
     },
   ];
@@ -3,6 +3,13 @@ import { Stack } from "expo-router";
 import * as SplashScreen from "expo-splash-screen";
 import React, { useEffect } from "react";
 import { GestureHandlerRootView } from "react-native-gesture-handler";
+import { useOutboxSync } from "@/hooks/useOutboxSync";
+import { useAuthListener } from "@/hooks/useAuthListener";
+import { useCacheLimit } from "@/hooks/useCacheLimit";
+import { useUploadNotifications } from "@/hooks/useUploadNotifications";
+import { useAutoBackup } from "@/hooks/useAutoBackup";
+import ToastHost from "@/components/ToastHost";
+import ChoiceSheetHost from "@/components/ChoiceSheetHost";
 
 // Prevent the splash screen from auto-hiding before asset loading is complete.
 SplashScreen.preventAutoHideAsync();
@@ -13,11 +20,22 @@ function RootLayoutNav() {
   return (
     <Stack screenOptions={{ headerBackTitle: "Back" }}>
       <Stack.Screen name="(tabs)" options={{ headerShown: false }} />
+      <Stack.Screen name="camera" options={{ presentation: "modal", title: "Take Photo" }} />
+      <Stack.Screen name="editor" options={{ presentation: "modal", title: "Edit Image" }} />
+      <Stack.Screen name="profile" options={{ title: "Profile" }} />
+      <Stack.Screen name="diagnostics" options={{ title: "Diagnostics" }} />
+      <Stack.Screen name="viewer" options={{ presentation: "fullScreenModal", headerShown: false, animation: "fade" }} />
     </Stack>
   );
 }
 
 export default function RootLayout() {
+  useAuthListener();
+  useOutboxSync();
+  useCacheLimit();
+  useUploadNotifications();
+  useAutoBackup();
+
   useEffect(() => {
     SplashScreen.hideAsync();
   }, []);
@@ -26,6 +44,8 @@ export default function RootLayout() {
     <QueryClientProvider client={queryClient}>
       <GestureHandlerRootView>
         <RootLayoutNav />
+        <ChoiceSheetHost />
+        <ToastHost />
       </GestureHandlerRootView>
     </QueryClientProvider>
   );
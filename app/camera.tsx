@@ -0,0 +1,223 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  Alert,
+  Platform,
+  Linking,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Image } from 'expo-image';
+import * as ImagePicker from 'expo-image-picker';
+import { Camera, RotateCcw, Check } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useUploadQueueStore } from '@/stores/uploadQueue';
+import { markCacheUsed } from '@/stores/cacheAccess';
+import WebCamera, { CapturedPhoto, isWebCameraAvailable } from '@/components/WebCamera';
+
+export default function CameraScreen() {
+  const router = useRouter();
+  const submitImages = useUploadQueueStore((state) => state.submit);
+  const [permission, requestPermission] = ImagePicker.useCameraPermissions();
+  const [photo, setPhoto] = useState<CapturedPhoto | null>(null);
+  const [webCameraFailed, setWebCameraFailed] = useState(false);
+  const [submitting, setSubmitting] = useState(false);
+
+  const showLiveWebCamera = Platform.OS === 'web' && isWebCameraAvailable() && !webCameraFailed;
+  const permissionDenied = Platform.OS !== 'web' && permission?.granted === false && !permission.canAskAgain;
+
+  const handleWebCameraError = useCallback((error: unknown) => {
+    // Falls back to the browser's file input with capture, e.g. when access was refused
+    console.error('Web camera error:', error);
+    setWebCameraFailed(true);
+  }, []);
+
+  const takePhoto = useCallback(async () => {
+    try {
+      if (Platform.OS !== 'web' && !permission?.granted) {
+        const response = await requestPermission();
+        if (!response.granted) return;
+      }
+
+      const result = await ImagePicker.launchCameraAsync({
+        mediaTypes: ImagePicker.MediaTypeOptions.Images,
+        // Compression is left to the upload pipeline, so the capture isn't re-encoded twice
+        quality: 1,
+      });
+
+      if (!result.canceled && result.assets[0]) {
+        const asset = result.assets[0];
+        setPhoto({
+          uri: asset.uri,
+          fileName: asset.fileName || `photo_${Date.now()}.jpg`,
+          width: asset.width,
+          height: asset.height,
+        });
+      }
+    } catch (error) {
+      console.error('Camera error:', error);
+      Alert.alert('Error', 'Failed to take photo');
+    }
+  }, [permission, requestPermission]);
+
+  const confirmPhoto = useCallback(async () => {
+    if (!photo) return;
+    try {
+      setSubmitting(true);
+      await submitImages([photo]);
+      router.back();
+    } finally {
+      setSubmitting(false);
+    }
+  }, [photo, submitImages, router]);
+
+  const renderReview = (captured: CapturedPhoto) => (
+    <View style={styles.review}>
+      <Image
+        source={{ uri: captured.uri }}
+        style={styles.preview}
+        contentFit="contain"
+        onLoad={() => markCacheUsed(captured.uri)}
+      />
+      <View style={styles.reviewActions}>
+        <TouchableOpacity style={styles.secondaryButton} onPress={() => setPhoto(null)} disabled={submitting}>
+          <RotateCcw size={20} color="#007AFF" />
+          <Text style={styles.secondaryButtonText}>Retake</Text>
+        </TouchableOpacity>
+        <TouchableOpacity style={styles.primaryButton} onPress={confirmPhoto} disabled={submitting}>
+          <Check size={20} color="#fff" />
+          <Text style={styles.primaryButtonText}>{submitting ? 'Adding...' : 'Use Photo'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  const renderLauncher = () => (
+    <View style={styles.launcher}>
+      <View style={styles.cameraIcon}>
+        <Camera size={48} color="#007AFF" />
+      </View>
+      {permissionDenied ? (
+        <>
+          <Text style={styles.launcherText}>Camera access is turned off</Text>
+          <Text style={styles.launcherSubtext}>Allow camera access in your device settings to take photos.</Text>
+          <TouchableOpacity style={styles.launcherButton} onPress={() => Linking.openSettings()}>
+            <Text style={styles.primaryButtonText}>Open Settings</Text>
+          </TouchableOpacity>
+        </>
+      ) : (
+        <>
+          <Text style={styles.launcherText}>Take a photo to upload</Text>
+          <Text style={styles.launcherSubtext}>You can review it before it is added to the upload queue.</Text>
+          <TouchableOpacity style={styles.launcherButton} onPress={takePhoto}>
+            <Camera size={20} color="#fff" />
+            <Text style={styles.primaryButtonText}>Open Camera</Text>
+          </TouchableOpacity>
+        </>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen options={{ title: photo ? 'Review Photo' : 'Take Photo' }} />
+      {photo
+        ? renderReview(photo)
+        : showLiveWebCamera
+          ? <WebCamera onCapture={setPhoto} onError={handleWebCameraError} />
+          : renderLauncher()}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  launcher: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+  },
+  cameraIcon: {
+    width: 96,
+    height: 96,
+    borderRadius: 48,
+    backgroundColor: '#f0f8ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 24,
+  },
+  launcherText: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    textAlign: 'center',
+    marginBottom: 8,
+  },
+  launcherSubtext: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginBottom: 24,
+  },
+  launcherButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    paddingHorizontal: 24,
+    borderRadius: 12,
+  },
+  review: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  preview: {
+    flex: 1,
+  },
+  reviewActions: {
+    flexDirection: 'row',
+    gap: 12,
+    padding: 20,
+    backgroundColor: '#fff',
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  secondaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,199 @@
+import React from 'react';
+import { View, Text, StyleSheet, ScrollView, Platform } from 'react-native';
+import Constants from 'expo-constants';
+import { CheckCircle, AlertCircle } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import {
+  CONFIG_FIELDS,
+  CONFIG_ISSUES,
+  ConfigField,
+  ConfigSection,
+  ConfigSource,
+  config,
+  maskValue,
+} from '@/services/config';
+import { getStorageProvider } from '@/services/storage';
+import { useStorageProvider } from '@/stores/storageProvider';
+
+const SOURCE_LABELS: Record<ConfigSource, string> = {
+  env: 'env',
+  'app.json': 'app.json',
+  'emulator default': 'emulator default',
+  unset: 'not set',
+};
+
+const SECTIONS: ConfigSection[] = ['firebase', 'cloudinary'];
+
+export default function DiagnosticsScreen() {
+  const activeProvider = useStorageProvider();
+
+  const renderField = (field: ConfigField, invalid: boolean) => (
+    <View key={field.key} style={styles.fieldRow}>
+      <View style={styles.fieldLabelColumn}>
+        <Text style={styles.fieldLabel}>{field.label}</Text>
+        <Text style={styles.fieldSource}>{SOURCE_LABELS[field.source]}</Text>
+      </View>
+      <Text style={[styles.fieldValue, invalid && styles.fieldValueInvalid]} numberOfLines={1} selectable={!field.secret}>
+        {field.value ? (field.secret ? maskValue(field.value) : field.value) : '—'}
+      </Text>
+    </View>
+  );
+
+  const renderSection = (section: ConfigSection) => {
+    const issues = CONFIG_ISSUES[section];
+    const invalidKeys = new Set(issues.map((issue) => issue.key));
+    const provider = getStorageProvider(section);
+
+    return (
+      <View key={section} style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>{provider.name}</Text>
+          {issues.length === 0 ? (
+            <View style={styles.status}>
+              <CheckCircle size={16} color="#34C759" />
+              <Text style={[styles.statusText, { color: '#34C759' }]}>Configured</Text>
+            </View>
+          ) : (
+            <View style={styles.status}>
+              <AlertCircle size={16} color="#FF3B30" />
+              <Text style={[styles.statusText, { color: '#FF3B30' }]}>
+                {issues.length} {issues.length === 1 ? 'issue' : 'issues'}
+              </Text>
+            </View>
+          )}
+        </View>
+        <View style={styles.card}>
+          {CONFIG_FIELDS[section].map((field) => renderField(field, invalidKeys.has(field.key)))}
+        </View>
+        {issues.map((issue) => (
+          <Text key={issue.key} style={styles.issue}>• {issue.message}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  const environment: [string, string][] = [
+    ['App version', Constants.expoConfig?.version ?? '—'],
+    ['Platform', `${Platform.OS} ${Platform.Version ?? ''}`.trim()],
+    ['Active provider', activeProvider.name],
+    ['Auth emulator', config.emulators.authHost ?? 'Off'],
+    ['Storage emulator', config.emulators.storageHost ?? 'Off'],
+    ['Cloudinary mock', config.emulators.cloudinaryMockUrl ?? 'Off'],
+  ];
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content}>
+        <Text style={styles.intro}>
+          Values come from EXPO_PUBLIC_* environment variables, falling back to expo.extra in app.json.
+          Restart the app after changing them.
+        </Text>
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Environment</Text>
+          <View style={styles.card}>
+            {environment.map(([label, value]) => (
+              <View key={label} style={styles.fieldRow}>
+                <Text style={styles.fieldLabel}>{label}</Text>
+                <Text style={styles.fieldValue} numberOfLines={1}>{value}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+
+        {SECTIONS.map(renderSection)}
+
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>{getStorageProvider('local').name}</Text>
+            <View style={styles.status}>
+              <CheckCircle size={16} color="#34C759" />
+              <Text style={[styles.statusText, { color: '#34C759' }]}>No setup needed</Text>
+            </View>
+          </View>
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+    gap: 24,
+  },
+  intro: {
+    fontSize: 14,
+    color: '#666',
+    lineHeight: 20,
+  },
+  section: {
+    gap: 8,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  status: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 4,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  fieldRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 10,
+  },
+  fieldLabelColumn: {
+    flexShrink: 0,
+  },
+  fieldLabel: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  fieldSource: {
+    fontSize: 11,
+    color: '#999',
+    marginTop: 2,
+  },
+  fieldValue: {
+    flex: 1,
+    marginLeft: 16,
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'right',
+  },
+  fieldValueInvalid: {
+    color: '#FF3B30',
+  },
+  issue: {
+    fontSize: 13,
+    color: '#FF3B30',
+  },
+});
@@ -0,0 +1,310 @@
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Stack, useRouter } from 'expo-router';
+import { Image } from 'expo-image';
+import { RotateCcw, RotateCw, FlipHorizontal2, FlipVertical2, Undo2, Check } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useImageEditorStore } from '@/stores/imageEditor';
+import { useUploadQueueStore } from '@/stores/uploadQueue';
+import { markCacheUsed } from '@/stores/cacheAccess';
+import { applyEdits, hasEdits, renderPreview, DEFAULT_EDITS, ImageEdits, Rotation } from '@/services/editing';
+import { readExif } from '@/services/exif';
+import { ASPECT_PRESETS, AspectPreset, CropRect, getInitialCrop } from '@/utils/crop';
+import CropFrame from '@/components/CropFrame';
+
+interface Preview {
+  uri: string;
+  width: number;
+  height: number;
+}
+
+export default function EditorScreen() {
+  const router = useRouter();
+  const source = useImageEditorStore((state) => state.source);
+  const closeEditor = useImageEditorStore((state) => state.close);
+  const submitImages = useUploadQueueStore((state) => state.submit);
+  const [edits, setEdits] = useState<ImageEdits>(DEFAULT_EDITS);
+  const [aspect, setAspect] = useState<AspectPreset>('free');
+  const [preview, setPreview] = useState<Preview | null>(null);
+  const [container, setContainer] = useState({ width: 0, height: 0 });
+  const [saving, setSaving] = useState(false);
+
+  const ratio = ASPECT_PRESETS[aspect];
+  const { rotation, flipHorizontal, flipVertical } = edits;
+  // Read by the preview effect without re-rendering: the aspect preset resets the crop on its own
+  const ratioRef = useRef(ratio);
+
+  useEffect(() => {
+    ratioRef.current = ratio;
+  }, [ratio]);
+
+  useEffect(() => () => closeEditor(), [closeEditor]);
+
+  // Re-renders the preview whenever the orientation changes; the crop is reset because its
+  // coordinates no longer line up with the rotated image
+  useEffect(() => {
+    if (!source) return;
+    let cancelled = false;
+
+    renderPreview(source.uri, { ...DEFAULT_EDITS, rotation, flipHorizontal, flipVertical })
+      .then((result) => {
+        if (cancelled) return;
+        setPreview(result);
+        setEdits((current) => ({ ...current, crop: getInitialCrop(ratioRef.current, result.width, result.height) }));
+      })
+      .catch((error) => {
+        console.error('Editor preview error:', error);
+        if (!cancelled) Alert.alert('Error', 'This image could not be opened for editing');
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [source, rotation, flipHorizontal, flipVertical]);
+
+  const selectAspect = useCallback((preset: AspectPreset) => {
+    setAspect(preset);
+    if (preview) {
+      setEdits((current) => ({
+        ...current,
+        crop: getInitialCrop(ASPECT_PRESETS[preset], preview.width, preview.height),
+      }));
+    }
+  }, [preview]);
+
+  const rotate = useCallback((degrees: 90 | -90) => {
+    setEdits((current) => ({ ...current, rotation: ((current.rotation + degrees + 360) % 360) as Rotation }));
+  }, []);
+
+  const setCrop = useCallback((crop: CropRect) => {
+    setEdits((current) => ({ ...current, crop }));
+  }, []);
+
+  const reset = useCallback(() => {
+    setAspect('free');
+    setEdits(DEFAULT_EDITS);
+  }, []);
+
+  const confirm = useCallback(async () => {
+    if (!source) return;
+    try {
+      setSaving(true);
+      if (hasEdits(edits)) {
+        // The edited file is re-encoded without EXIF, so the source's details (read before editing)
+        // carry over; its pixels are already upright, so the orientation tag is dropped
+        const exif = source.exif ?? (await readExif(source.uri));
+        const edited = await applyEdits(source, edits);
+        await submitImages([{ ...source, ...edited, exif: exif ? { ...exif, orientation: undefined } : undefined }]);
+      } else {
+        await submitImages([source]);
+      }
+      router.back();
+    } catch (error) {
+      console.error('Editor save error:', error);
+      Alert.alert('Error', 'Failed to apply edits');
+    } finally {
+      setSaving(false);
+    }
+  }, [source, edits, submitImages, router]);
+
+  const onLayout = useCallback((event: LayoutChangeEvent) => {
+    const { width, height } = event.nativeEvent.layout;
+    setContainer({ width, height });
+  }, []);
+
+  // Fits the preview inside the available space
+  const scale = preview ? Math.min(container.width / preview.width, container.height / preview.height) : 0;
+  const displayWidth = preview ? preview.width * scale : 0;
+  const displayHeight = preview ? preview.height * scale : 0;
+
+  if (!source) {
+    return (
+      <View style={styles.empty}>
+        <Stack.Screen options={{ title: 'Edit Image' }} />
+        <Text style={styles.emptyText}>No image to edit</Text>
+      </View>
+    );
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <Stack.Screen options={{ title: 'Edit Image' }} />
+      <View style={styles.canvas} onLayout={onLayout}>
+        {preview && displayWidth > 0 ? (
+          <View style={{ width: displayWidth, height: displayHeight }}>
+            <Image
+              source={{ uri: preview.uri }}
+              style={StyleSheet.absoluteFill}
+              contentFit="fill"
+              onLoad={() => markCacheUsed(preview.uri)}
+            />
+            <CropFrame
+              crop={edits.crop}
+              displayWidth={displayWidth}
+              displayHeight={displayHeight}
+              ratio={ratio}
+              imageWidth={preview.width}
+              imageHeight={preview.height}
+              onChange={setCrop}
+            />
+          </View>
+        ) : (
+          <ActivityIndicator color="#fff" />
+        )}
+      </View>
+
+      <View style={styles.toolbar}>
+        <View style={styles.presets}>
+          {(Object.keys(ASPECT_PRESETS) as AspectPreset[]).map((preset) => (
+            <TouchableOpacity
+              key={preset}
+              style={[styles.preset, aspect === preset && styles.presetActive]}
+              onPress={() => selectAspect(preset)}
+            >
+              <Text style={[styles.presetText, aspect === preset && styles.presetTextActive]}>
+                {preset === 'free' ? 'Free' : preset}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+
+        <View style={styles.tools}>
+          <TouchableOpacity style={styles.tool} onPress={() => rotate(-90)}>
+            <RotateCcw size={22} color="#1a1a1a" />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.tool} onPress={() => rotate(90)}>
+            <RotateCw size={22} color="#1a1a1a" />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tool, flipHorizontal && styles.toolActive]}
+            onPress={() => setEdits((current) => ({ ...current, flipHorizontal: !current.flipHorizontal }))}
+          >
+            <FlipHorizontal2 size={22} color={flipHorizontal ? '#fff' : '#1a1a1a'} />
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={[styles.tool, flipVertical && styles.toolActive]}
+            onPress={() => setEdits((current) => ({ ...current, flipVertical: !current.flipVertical }))}
+          >
+            <FlipVertical2 size={22} color={flipVertical ? '#fff' : '#1a1a1a'} />
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.tool} onPress={reset} disabled={!hasEdits(edits) && aspect === 'free'}>
+            <Undo2 size={22} color={!hasEdits(edits) && aspect === 'free' ? '#ccc' : '#1a1a1a'} />
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.actions}>
+          <TouchableOpacity style={styles.secondaryButton} onPress={() => router.back()} disabled={saving}>
+            <Text style={styles.secondaryButtonText}>Cancel</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.primaryButton} onPress={confirm} disabled={saving || !preview}>
+            <Check size={20} color="#fff" />
+            <Text style={styles.primaryButtonText}>{saving ? 'Saving...' : 'Upload'}</Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#fff',
+  },
+  canvas: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#000',
+    padding: 16,
+  },
+  toolbar: {
+    padding: 20,
+    gap: 16,
+  },
+  presets: {
+    flexDirection: 'row',
+    justifyContent: 'center',
+    gap: 8,
+  },
+  preset: {
+    paddingHorizontal: 14,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  presetActive: {
+    backgroundColor: '#007AFF',
+  },
+  presetText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  presetTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  tools: {
+    flexDirection: 'row',
+    justifyContent: 'space-around',
+  },
+  tool: {
+    padding: 10,
+    borderRadius: 8,
+  },
+  toolActive: {
+    backgroundColor: '#007AFF',
+  },
+  actions: {
+    flexDirection: 'row',
+    gap: 12,
+  },
+  primaryButton: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#007AFF',
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  secondaryButton: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#007AFF',
+  },
+  secondaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  empty: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  emptyText: {
+    fontSize: 16,
+    color: '#666',
+  },
+});
@@ -0,0 +1,299 @@
+import React, { useState, useCallback } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  TouchableOpacity,
+  TextInput,
+  ActivityIndicator,
+} from 'react-native';
+import { User, LogOut, Mail, Lock } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useAuthStore } from '@/stores/auth';
+import { useUserImages } from '@/stores/imageLibrary';
+import { showToast } from '@/stores/toast';
+import { confirmAction } from '@/stores/choiceSheet';
+import { createAccount, signInAsGuest, signInWithEmail, signOut } from '@/services/auth';
+
+type FormMode = 'sign-in' | 'create';
+
+export default function ProfileScreen() {
+  const user = useAuthStore((state) => state.user);
+  const initializing = useAuthStore((state) => state.initializing);
+  const images = useUserImages();
+  const [mode, setMode] = useState<FormMode>('sign-in');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const run = useCallback(async (action: () => Promise<unknown>) => {
+    try {
+      setBusy(true);
+      await action();
+      setPassword('');
+    } catch (error) {
+      showToast('Error', error instanceof Error ? error.message : 'Something went wrong', 'error');
+    } finally {
+      setBusy(false);
+    }
+  }, []);
+
+  const submit = useCallback(() => {
+    if (!email.trim() || !password) {
+      showToast('Missing Details', 'Enter your email address and password', 'error');
+      return;
+    }
+    if (mode === 'sign-in' && user?.isAnonymous && images.length > 0) {
+      confirmAction(
+        'Switch Account',
+        'Images uploaded as a guest stay with the guest session. Create an account instead to keep them.',
+        'Sign In',
+        () => run(() => signInWithEmail(email, password))
+      );
+      return;
+    }
+    run(() => (mode === 'sign-in' ? signInWithEmail(email, password) : createAccount(email, password)));
+  }, [email, password, mode, user, images.length, run]);
+
+  const confirmSignOut = useCallback(() => {
+    confirmAction('Sign Out', 'You will continue as a guest until you sign in again.', 'Sign Out', () => run(signOut), {
+      destructive: true,
+    });
+  }, [run]);
+
+  const formatDate = (value?: string) => (value ? new Date(value).toLocaleString() : '—');
+
+  if (initializing) {
+    return (
+      <View style={styles.loading}>
+        <ActivityIndicator color="#007AFF" />
+      </View>
+    );
+  }
+
+  const renderAccount = () => {
+    if (!user) return null;
+    const rows: [string, string][] = [
+      ['Account', user.isAnonymous ? 'Guest' : user.email ?? '—'],
+      ['User ID', user.uid],
+      ['Images', String(images.length)],
+      ['Member since', formatDate(user.createdAt)],
+      ['Last sign-in', formatDate(user.lastSignInAt)],
+    ];
+
+    return (
+      <View style={styles.card}>
+        {rows.map(([label, value]) => (
+          <View key={label} style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{label}</Text>
+            <Text style={styles.infoValue} numberOfLines={1} selectable>{value}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderForm = () => (
+    <View style={styles.card}>
+      <Text style={styles.formTitle}>
+        {mode === 'sign-in' ? 'Sign in to your account' : user?.isAnonymous ? 'Save your guest uploads to an account' : 'Create an account'}
+      </Text>
+      <View style={styles.inputRow}>
+        <Mail size={18} color="#666" />
+        <TextInput
+          style={styles.input}
+          value={email}
+          onChangeText={setEmail}
+          placeholder="Email"
+          placeholderTextColor="#999"
+          autoCapitalize="none"
+          autoCorrect={false}
+          keyboardType="email-address"
+          textContentType="emailAddress"
+        />
+      </View>
+      <View style={styles.inputRow}>
+        <Lock size={18} color="#666" />
+        <TextInput
+          style={styles.input}
+          value={password}
+          onChangeText={setPassword}
+          placeholder="Password"
+          placeholderTextColor="#999"
+          secureTextEntry
+          textContentType={mode === 'sign-in' ? 'password' : 'newPassword'}
+          onSubmitEditing={submit}
+        />
+      </View>
+      <TouchableOpacity style={styles.primaryButton} onPress={submit} disabled={busy}>
+        <Text style={styles.primaryButtonText}>
+          {busy ? 'Please wait...' : mode === 'sign-in' ? 'Sign In' : 'Create Account'}
+        </Text>
+      </TouchableOpacity>
+      <TouchableOpacity onPress={() => setMode(mode === 'sign-in' ? 'create' : 'sign-in')} disabled={busy}>
+        <Text style={styles.linkText}>
+          {mode === 'sign-in' ? "Don't have an account? Create one" : 'Already have an account? Sign in'}
+        </Text>
+      </TouchableOpacity>
+      {!user && (
+        <TouchableOpacity onPress={() => run(signInAsGuest)} disabled={busy}>
+          <Text style={styles.linkText}>Continue as guest</Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+
+  return (
+    <SafeAreaView style={styles.container} edges={['bottom']}>
+      <ScrollView contentContainerStyle={styles.content} keyboardShouldPersistTaps="handled">
+        <View style={styles.header}>
+          <View style={styles.avatar}>
+            {user?.email
+              ? <Text style={styles.avatarText}>{user.email[0].toUpperCase()}</Text>
+              : <User size={36} color="#007AFF" />}
+          </View>
+          <Text style={styles.name}>
+            {user ? (user.isAnonymous ? 'Guest' : user.email) : 'Not signed in'}
+          </Text>
+          {user?.isAnonymous && (
+            <Text style={styles.hint}>Guest uploads are tied to this device until you create an account.</Text>
+          )}
+        </View>
+
+        {renderAccount()}
+        {(!user || user.isAnonymous) && renderForm()}
+
+        {user && !user.isAnonymous && (
+          <TouchableOpacity style={styles.signOutButton} onPress={confirmSignOut} disabled={busy}>
+            <LogOut size={20} color="#FF3B30" />
+            <Text style={styles.signOutText}>Sign Out</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#f8f9fa',
+  },
+  loading: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: '#f8f9fa',
+  },
+  content: {
+    padding: 20,
+    gap: 20,
+  },
+  header: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  avatar: {
+    width: 80,
+    height: 80,
+    borderRadius: 40,
+    backgroundColor: '#f0f8ff',
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginBottom: 12,
+  },
+  avatarText: {
+    fontSize: 32,
+    fontWeight: 'bold',
+    color: '#007AFF',
+  },
+  name: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 6,
+  },
+  card: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    gap: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+  },
+  infoLabel: {
+    fontSize: 14,
+    color: '#666',
+  },
+  infoValue: {
+    flex: 1,
+    marginLeft: 16,
+    fontSize: 14,
+    color: '#1a1a1a',
+    textAlign: 'right',
+  },
+  formTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#f5f5f5',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+  },
+  input: {
+    flex: 1,
+    marginLeft: 8,
+    padding: 0,
+    fontSize: 16,
+    color: '#1a1a1a',
+  },
+  primaryButton: {
+    alignItems: 'center',
+    backgroundColor: '#007AFF',
+    paddingVertical: 14,
+    borderRadius: 12,
+  },
+  primaryButtonText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  linkText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+    textAlign: 'center',
+  },
+  signOutButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: 8,
+    backgroundColor: '#fff',
+    paddingVertical: 16,
+    borderRadius: 12,
+  },
+  signOutText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+});
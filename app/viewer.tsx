@@ -0,0 +1,272 @@
+import React, { useCallback, useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  TouchableOpacity,
+  FlatList,
+  useWindowDimensions,
+  NativeSyntheticEvent,
+  NativeScrollEvent,
+  TextInput,
+  Alert,
+} from 'react-native';
+import { useLocalSearchParams, useRouter } from 'expo-router';
+import { X, Info } from 'lucide-react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { useUserImages, useImageLibraryStore, LibraryImage } from '@/stores/imageLibrary';
+import { useAlbumsStore, getAlbumName } from '@/stores/albums';
+import { useGalleryFiltersStore } from '@/stores/galleryFilters';
+import { getStorageProvider } from '@/services/storage';
+import { filterImages, getImageFormat } from '@/utils/imageFilters';
+import { formatBytes } from '@/utils/format';
+import { parseTags } from '@/utils/albums';
+import ZoomableImage from '@/components/ZoomableImage';
+
+export default function ViewerScreen() {
+  const router = useRouter();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const { width, height } = useWindowDimensions();
+  const images = useUserImages();
+  const query = useGalleryFiltersStore((state) => state.query);
+  const filters = useGalleryFiltersStore((state) => state.filters);
+  const sort = useGalleryFiltersStore((state) => state.sort);
+
+  // Swipes follow the same order the Gallery shows
+  const visibleImages = useMemo(
+    () => filterImages(images, query, filters, sort),
+    [images, query, filters, sort]
+  );
+  const initialIndex = Math.max(0, visibleImages.findIndex((image) => image.id === id));
+  const [index, setIndex] = useState(initialIndex);
+  const [zoomed, setZoomed] = useState(false);
+  const [showInfo, setShowInfo] = useState(false);
+  const [tagDraft, setTagDraft] = useState<string | null>(null);
+  const albums = useAlbumsStore((state) => state.albums);
+  const updateTags = useImageLibraryStore((state) => state.updateTags);
+
+  const current = visibleImages[index];
+
+  const onMomentumScrollEnd = useCallback((event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    setIndex(Math.round(event.nativeEvent.contentOffset.x / width));
+    setTagDraft(null);
+  }, [width]);
+
+  const saveTags = async (image: LibraryImage) => {
+    if (tagDraft === null) return;
+    setTagDraft(null);
+    try {
+      await updateTags(image.id, parseTags(tagDraft));
+    } catch (error) {
+      console.error('Tag update error:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to update tags');
+    }
+  };
+
+  const renderMetadata = (image: LibraryImage) => {
+    const { exif } = image;
+    const camera = [exif?.make, exif?.model].filter(Boolean).join(' ');
+    const rows: [string, string][] = [
+      ['Dimensions', image.width && image.height ? `${image.width} × ${image.height}` : 'Unknown'],
+      ['Size', formatBytes(image.bytes)],
+      ['Format', getImageFormat(image).toUpperCase() || 'Unknown'],
+      ['Provider', getStorageProvider(image.provider).name],
+      ['Album', image.album ? getAlbumName(albums, image.album) : 'None'],
+      ['Public ID', image.publicId],
+      ['Uploaded', new Date(image.uploadedAt).toLocaleString()],
+    ];
+    if (camera) rows.push(['Camera', camera]);
+    if (exif?.takenAt) rows.push(['Taken', new Date(exif.takenAt).toLocaleString()]);
+    if (exif?.latitude !== undefined && exif.longitude !== undefined) {
+      rows.push(['Location', `${exif.latitude.toFixed(5)}, ${exif.longitude.toFixed(5)}`]);
+    }
+
+    return (
+      <View style={styles.infoPanel}>
+        <Text style={styles.infoTitle} numberOfLines={1}>{image.name}</Text>
+        {rows.map(([label, value]) => (
+          <View key={label} style={styles.infoRow}>
+            <Text style={styles.infoLabel}>{label}</Text>
+            <Text style={styles.infoValue} numberOfLines={2} selectable>{value}</Text>
+          </View>
+        ))}
+        <View style={styles.infoRow}>
+          <Text style={styles.infoLabel}>Tags</Text>
+          {tagDraft === null ? (
+            <TouchableOpacity style={styles.tagsValue} onPress={() => setTagDraft(image.tags?.join(', ') ?? '')}>
+              <Text style={styles.infoValue} numberOfLines={2}>
+                {image.tags?.length ? image.tags.map((tag) => `#${tag}`).join(' ') : 'None'}
+              </Text>
+              <Text style={styles.editText}>Edit</Text>
+            </TouchableOpacity>
+          ) : (
+            <View style={styles.tagsValue}>
+              <TextInput
+                style={styles.tagInput}
+                value={tagDraft}
+                onChangeText={setTagDraft}
+                onSubmitEditing={() => saveTags(image)}
+                placeholder="travel, family"
+                placeholderTextColor="#666"
+                autoCapitalize="none"
+                returnKeyType="done"
+                autoFocus
+              />
+              <TouchableOpacity onPress={() => saveTags(image)}>
+                <Text style={styles.editText}>Save</Text>
+              </TouchableOpacity>
+            </View>
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      {current ? (
+        <FlatList
+          data={visibleImages}
+          keyExtractor={(image) => image.id}
+          horizontal
+          pagingEnabled
+          scrollEnabled={!zoomed}
+          showsHorizontalScrollIndicator={false}
+          initialScrollIndex={initialIndex}
+          getItemLayout={(_, itemIndex) => ({ length: width, offset: width * itemIndex, index: itemIndex })}
+          onMomentumScrollEnd={onMomentumScrollEnd}
+          renderItem={({ item }) => (
+            <ZoomableImage uri={item.url} width={width} height={height} onZoomChange={setZoomed} />
+          )}
+        />
+      ) : (
+        <View style={styles.missing}>
+          <Text style={styles.missingText}>This image is no longer available</Text>
+        </View>
+      )}
+
+      <SafeAreaView style={styles.topBar} edges={['top']} pointerEvents="box-none">
+        <TouchableOpacity style={styles.iconButton} onPress={() => router.back()}>
+          <X size={22} color="#fff" />
+        </TouchableOpacity>
+        {current && (
+          <Text style={styles.counter}>
+            {index + 1} of {visibleImages.length}
+          </Text>
+        )}
+        {current ? (
+          <TouchableOpacity
+            style={[styles.iconButton, showInfo && styles.iconButtonActive]}
+            onPress={() => setShowInfo((visible) => !visible)}
+          >
+            <Info size={22} color="#fff" />
+          </TouchableOpacity>
+        ) : (
+          <View style={styles.iconButtonPlaceholder} />
+        )}
+      </SafeAreaView>
+
+      {current && showInfo && (
+        <SafeAreaView style={styles.bottomBar} edges={['bottom']}>
+          {renderMetadata(current)}
+        </SafeAreaView>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  topBar: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: 16,
+    paddingBottom: 8,
+  },
+  iconButton: {
+    width: 40,
+    height: 40,
+    borderRadius: 20,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  iconButtonActive: {
+    backgroundColor: '#007AFF',
+  },
+  iconButtonPlaceholder: {
+    width: 40,
+  },
+  counter: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  bottomBar: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    bottom: 0,
+    backgroundColor: 'rgba(0, 0, 0, 0.8)',
+  },
+  infoPanel: {
+    padding: 20,
+  },
+  infoTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#fff',
+    marginBottom: 12,
+  },
+  infoRow: {
+    flexDirection: 'row',
+    paddingVertical: 6,
+  },
+  infoLabel: {
+    width: 100,
+    fontSize: 14,
+    color: '#999',
+  },
+  infoValue: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  tagsValue: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+  },
+  tagInput: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+    paddingVertical: 4,
+    paddingHorizontal: 8,
+    borderRadius: 6,
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
+  editText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  missing: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  missingText: {
+    fontSize: 16,
+    color: '#999',
+  },
+});
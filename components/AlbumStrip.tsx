@@ -0,0 +1,87 @@
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { Folder } from 'lucide-react-native';
+import { useAlbumsStore, getAlbumName } from '@/stores/albums';
+import { useGalleryFiltersStore } from '@/stores/galleryFilters';
+import type { LibraryImage } from '@/stores/imageLibrary';
+
+// Album tabs above the gallery; albums found in storage but not created here are listed too
+export default function AlbumStrip({ images }: { images: LibraryImage[] }) {
+  const albums = useAlbumsStore((state) => state.albums);
+  const album = useGalleryFiltersStore((state) => state.filters.album);
+  const setFilters = useGalleryFiltersStore((state) => state.setFilters);
+
+  const entries = useMemo(() => {
+    const counts = new Map<string, number>(albums.map((entry) => [entry.id, 0]));
+    images.forEach((image) => {
+      if (image.album) counts.set(image.album, (counts.get(image.album) ?? 0) + 1);
+    });
+    return Array.from(counts, ([id, count]) => ({ id, name: getAlbumName(albums, id), count }));
+  }, [albums, images]);
+
+  if (entries.length === 0) {
+    return null;
+  }
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      style={styles.container}
+      contentContainerStyle={styles.chips}
+    >
+      <TouchableOpacity
+        style={[styles.chip, album === 'all' && styles.chipActive]}
+        onPress={() => setFilters({ album: 'all' })}
+      >
+        <Text style={[styles.chipText, album === 'all' && styles.chipTextActive]}>All Images</Text>
+      </TouchableOpacity>
+      {entries.map((entry) => (
+        <TouchableOpacity
+          key={entry.id}
+          style={[styles.chip, album === entry.id && styles.chipActive]}
+          onPress={() => setFilters({ album: entry.id })}
+        >
+          <Folder size={14} color={album === entry.id ? '#fff' : '#666'} />
+          <Text style={[styles.chipText, album === entry.id && styles.chipTextActive]}>
+            {entry.name} ({entry.count})
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </ScrollView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexGrow: 0,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  chips: {
+    gap: 8,
+    paddingHorizontal: 20,
+    paddingVertical: 10,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+});
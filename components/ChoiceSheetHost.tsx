@@ -0,0 +1,142 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, Modal, ScrollView, Pressable } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Check } from 'lucide-react-native';
+import { useChoiceSheetStore, Choice } from '@/stores/choiceSheet';
+
+// Bottom sheet for the choice currently requested through showChoices/confirmAction
+export default function ChoiceSheetHost() {
+  const sheet = useChoiceSheetStore((state) => state.sheet);
+  const dismiss = useChoiceSheetStore((state) => state.dismiss);
+
+  const choose = (choice: Choice) => {
+    dismiss();
+    choice.onPress();
+  };
+
+  return (
+    <Modal visible={sheet !== null} transparent animationType="fade" onRequestClose={dismiss}>
+      <Pressable style={styles.backdrop} onPress={dismiss}>
+        <SafeAreaView edges={['bottom']} style={styles.container}>
+          {/* Stops taps on the sheet from reaching the backdrop */}
+          <Pressable style={styles.sheet} onPress={() => {}}>
+            {sheet && (
+              <>
+                <View style={styles.header}>
+                  <Text style={styles.title}>{sheet.title}</Text>
+                  {sheet.message && <Text style={styles.message}>{sheet.message}</Text>}
+                </View>
+                <ScrollView style={styles.choices}>
+                  {sheet.choices.map((choice) => (
+                    <TouchableOpacity
+                      key={choice.label}
+                      style={styles.choice}
+                      onPress={() => choose(choice)}
+                      activeOpacity={0.7}
+                    >
+                      <View style={styles.choiceContent}>
+                        <Text
+                          style={[
+                            styles.choiceLabel,
+                            choice.selected && styles.choiceLabelSelected,
+                            choice.destructive && styles.choiceLabelDestructive,
+                          ]}
+                        >
+                          {choice.label}
+                        </Text>
+                        {choice.subtitle && <Text style={styles.choiceSubtitle}>{choice.subtitle}</Text>}
+                      </View>
+                      {choice.selected && <Check size={18} color="#007AFF" />}
+                    </TouchableOpacity>
+                  ))}
+                </ScrollView>
+              </>
+            )}
+          </Pressable>
+          <TouchableOpacity style={styles.cancel} onPress={dismiss} activeOpacity={0.7}>
+            <Text style={styles.cancelText}>Cancel</Text>
+          </TouchableOpacity>
+        </SafeAreaView>
+      </Pressable>
+    </Modal>
+  );
+}
+
+const styles = StyleSheet.create({
+  backdrop: {
+    flex: 1,
+    justifyContent: 'flex-end',
+    backgroundColor: 'rgba(0, 0, 0, 0.4)',
+  },
+  container: {
+    width: '100%',
+    maxWidth: 500,
+    alignSelf: 'center',
+    paddingHorizontal: 12,
+    paddingBottom: 12,
+    gap: 8,
+  },
+  sheet: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    overflow: 'hidden',
+    maxHeight: 480,
+  },
+  header: {
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 13,
+    color: '#666',
+    textAlign: 'center',
+    marginTop: 4,
+  },
+  choices: {
+    flexGrow: 0,
+  },
+  choice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: 20,
+    paddingVertical: 14,
+    borderBottomWidth: 1,
+    borderBottomColor: '#f0f0f0',
+  },
+  choiceContent: {
+    flex: 1,
+  },
+  choiceLabel: {
+    fontSize: 16,
+    color: '#007AFF',
+  },
+  choiceLabelSelected: {
+    fontWeight: '600',
+  },
+  choiceLabelDestructive: {
+    color: '#FF3B30',
+  },
+  choiceSubtitle: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  cancel: {
+    backgroundColor: '#fff',
+    borderRadius: 14,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  cancelText: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
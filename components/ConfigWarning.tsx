@@ -0,0 +1,64 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { useRouter } from 'expo-router';
+import { AlertTriangle } from 'lucide-react-native';
+import { getConfigIssues } from '@/services/config';
+import type { StorageProvider } from '@/services/storage';
+
+// Explains up front why uploads to a misconfigured provider would fail
+export default function ConfigWarning({ provider }: { provider: StorageProvider }) {
+  const router = useRouter();
+  const issues = getConfigIssues(provider.id);
+
+  if (issues.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <AlertTriangle size={20} color="#FF9500" />
+      <View style={styles.content}>
+        <Text style={styles.title}>{provider.name} is not configured</Text>
+        <Text style={styles.message} numberOfLines={2}>
+          {issues[0].message}
+          {issues.length > 1 && ` and ${issues.length - 1} more`}
+        </Text>
+      </View>
+      <TouchableOpacity onPress={() => router.push('/diagnostics')}>
+        <Text style={styles.link}>Details</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff8ec',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#FF9500',
+    padding: 12,
+    marginBottom: 24,
+  },
+  content: {
+    flex: 1,
+    marginHorizontal: 10,
+  },
+  title: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  message: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  link: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
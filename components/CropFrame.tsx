@@ -0,0 +1,115 @@
+import React, { useMemo, useRef } from 'react';
+import { View, StyleSheet } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+import { CropRect, moveCrop, resizeCrop } from '@/utils/crop';
+
+interface CropFrameProps {
+  crop: CropRect;
+  displayWidth: number;
+  displayHeight: number;
+  ratio: number | null;
+  imageWidth: number;
+  imageHeight: number;
+  onChange: (crop: CropRect) => void;
+}
+
+const HANDLE_SIZE = 28;
+
+// Drag inside the frame to move it, drag the corner handle to resize it. Drawn over a preview
+// that is exactly `displayWidth` × `displayHeight`.
+export default function CropFrame({
+  crop,
+  displayWidth,
+  displayHeight,
+  ratio,
+  imageWidth,
+  imageHeight,
+  onChange,
+}: CropFrameProps) {
+  const start = useRef(crop);
+  const latest = useRef(crop);
+  latest.current = crop;
+
+  const { move, resize } = useMemo(() => ({
+    move: Gesture.Pan()
+      .runOnJS(true)
+      .onStart(() => {
+        start.current = latest.current;
+      })
+      .onUpdate((event) => {
+        onChange(moveCrop(start.current, event.translationX / displayWidth, event.translationY / displayHeight));
+      }),
+    resize: Gesture.Pan()
+      .runOnJS(true)
+      .onStart(() => {
+        start.current = latest.current;
+      })
+      .onUpdate((event) => {
+        onChange(resizeCrop(
+          start.current,
+          event.translationX / displayWidth,
+          event.translationY / displayHeight,
+          ratio,
+          imageWidth,
+          imageHeight
+        ));
+      }),
+  }), [displayWidth, displayHeight, ratio, imageWidth, imageHeight, onChange]);
+
+  const left = crop.x * displayWidth;
+  const top = crop.y * displayHeight;
+  const width = crop.width * displayWidth;
+  const height = crop.height * displayHeight;
+
+  return (
+    <View style={[StyleSheet.absoluteFill, styles.container]} pointerEvents="box-none">
+      {/* Dim everything outside the crop */}
+      <View style={[styles.shade, { left: 0, right: 0, top: 0, height: top }]} />
+      <View style={[styles.shade, { left: 0, right: 0, top: top + height, bottom: 0 }]} />
+      <View style={[styles.shade, { left: 0, width: left, top, height }]} />
+      <View style={[styles.shade, { left: left + width, right: 0, top, height }]} />
+
+      <GestureDetector gesture={move}>
+        <View style={[styles.frame, { left, top, width, height }]}>
+          <View style={[styles.gridLine, { left: '33.3%', top: 0, bottom: 0, width: 1 }]} />
+          <View style={[styles.gridLine, { left: '66.6%', top: 0, bottom: 0, width: 1 }]} />
+          <View style={[styles.gridLine, { top: '33.3%', left: 0, right: 0, height: 1 }]} />
+          <View style={[styles.gridLine, { top: '66.6%', left: 0, right: 0, height: 1 }]} />
+          <GestureDetector gesture={resize}>
+            <View style={styles.handle} />
+          </GestureDetector>
+        </View>
+      </GestureDetector>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+  },
+  shade: {
+    position: 'absolute',
+    backgroundColor: 'rgba(0, 0, 0, 0.5)',
+  },
+  frame: {
+    position: 'absolute',
+    borderWidth: 2,
+    borderColor: '#fff',
+  },
+  gridLine: {
+    position: 'absolute',
+    backgroundColor: 'rgba(255, 255, 255, 0.4)',
+  },
+  handle: {
+    position: 'absolute',
+    right: -HANDLE_SIZE / 2,
+    bottom: -HANDLE_SIZE / 2,
+    width: HANDLE_SIZE,
+    height: HANDLE_SIZE,
+    borderRadius: HANDLE_SIZE / 2,
+    backgroundColor: '#007AFF',
+    borderWidth: 3,
+    borderColor: '#fff',
+  },
+});
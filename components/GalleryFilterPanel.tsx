@@ -0,0 +1,160 @@
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView } from 'react-native';
+import { useGalleryFiltersStore } from '@/stores/galleryFilters';
+import { useUserImages } from '@/stores/imageLibrary';
+import { getStorageProviders } from '@/services/storage';
+import {
+  DATE_RANGES,
+  SIZE_RANGES,
+  SORT_LABELS,
+  DateRange,
+  SizeRange,
+  SortOption,
+  collectTags,
+} from '@/utils/imageFilters';
+
+const FORMAT_OPTIONS = ['jpg', 'png', 'gif', 'webp'];
+
+interface ChipOption<T> {
+  value: T;
+  label: string;
+}
+
+function ChipRow<T extends string>({
+  label,
+  options,
+  value,
+  onChange,
+}: {
+  label: string;
+  options: ChipOption<T>[];
+  value: T;
+  onChange: (value: T) => void;
+}) {
+  return (
+    <View style={styles.row}>
+      <Text style={styles.rowLabel}>{label}</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        {options.map((option) => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, option.value === value && styles.chipActive]}
+            onPress={() => onChange(option.value)}
+          >
+            <Text style={[styles.chipText, option.value === value && styles.chipTextActive]}>{option.label}</Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    </View>
+  );
+}
+
+export default function GalleryFilterPanel() {
+  const filters = useGalleryFiltersStore((state) => state.filters);
+  const sort = useGalleryFiltersStore((state) => state.sort);
+  const setFilters = useGalleryFiltersStore((state) => state.setFilters);
+  const setSort = useGalleryFiltersStore((state) => state.setSort);
+  const reset = useGalleryFiltersStore((state) => state.reset);
+  const images = useUserImages();
+  const tags = useMemo(() => collectTags(images), [images]);
+
+  return (
+    <View style={styles.container}>
+      <ChipRow
+        label="Sort by"
+        options={(Object.keys(SORT_LABELS) as SortOption[]).map((value) => ({ value, label: SORT_LABELS[value] }))}
+        value={sort}
+        onChange={setSort}
+      />
+      <ChipRow
+        label="Provider"
+        options={[
+          { value: 'all', label: 'All' },
+          ...getStorageProviders().map((provider) => ({ value: provider.id, label: provider.name })),
+        ]}
+        value={filters.provider}
+        onChange={(provider) => setFilters({ provider })}
+      />
+      <ChipRow
+        label="File type"
+        options={[
+          { value: 'all', label: 'All' },
+          ...FORMAT_OPTIONS.map((format) => ({ value: format, label: format.toUpperCase() })),
+        ]}
+        value={filters.format}
+        onChange={(format) => setFilters({ format })}
+      />
+      <ChipRow
+        label="Size"
+        options={(Object.keys(SIZE_RANGES) as SizeRange[]).map((value) => ({ value, label: SIZE_RANGES[value].label }))}
+        value={filters.size}
+        onChange={(size) => setFilters({ size })}
+      />
+      <ChipRow
+        label="Uploaded"
+        options={(Object.keys(DATE_RANGES) as DateRange[]).map((value) => ({ value, label: DATE_RANGES[value] }))}
+        value={filters.date}
+        onChange={(date) => setFilters({ date })}
+      />
+      {tags.length > 0 && (
+        <ChipRow
+          label="Tag"
+          options={[{ value: 'all', label: 'All' }, ...tags.map((tag) => ({ value: tag, label: `#${tag}` }))]}
+          value={filters.tag}
+          onChange={(tag) => setFilters({ tag })}
+        />
+      )}
+      <TouchableOpacity style={styles.resetButton} onPress={reset}>
+        <Text style={styles.resetText}>Reset filters</Text>
+      </TouchableOpacity>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    paddingHorizontal: 20,
+    paddingBottom: 12,
+    backgroundColor: '#fff',
+    borderBottomWidth: 1,
+    borderBottomColor: '#e5e5e5',
+  },
+  row: {
+    marginTop: 12,
+  },
+  rowLabel: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 6,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  resetButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  resetText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+});
@@ -0,0 +1,139 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { CloudOff, X } from 'lucide-react-native';
+import { useNetworkState } from 'expo-network';
+import { useOutboxStore, OutboxEntry } from '@/stores/outbox';
+import { useSettingsStore } from '@/stores/settings';
+import { drainOutbox } from '@/hooks/useOutboxSync';
+import { isNetworkStateOnline } from '@/services/network';
+
+export default function OutboxList() {
+  const entries = useOutboxStore((state) => state.entries);
+  const discard = useOutboxStore((state) => state.discard);
+  const autoUpload = useSettingsStore((state) => state.autoUpload);
+  const online = isNetworkStateOnline(useNetworkState());
+
+  const pending = entries.filter((entry) => entry.status === 'pending');
+  if (pending.length === 0) {
+    return null;
+  }
+
+  const hint = !online
+    ? 'Waiting for a connection'
+    : autoUpload
+      ? 'Uploading shortly'
+      : 'Auto Upload is off — upload them manually';
+
+  const renderEntry = (entry: OutboxEntry) => (
+    <View key={entry.id} style={styles.item}>
+      <Image source={{ uri: entry.uri }} style={styles.thumbnail} contentFit="cover" />
+      <View style={styles.itemContent}>
+        <Text style={styles.itemName} numberOfLines={1}>
+          {entry.fileName}
+        </Text>
+        <Text style={styles.itemDate}>
+          Added {new Date(entry.createdAt).toLocaleString()}
+        </Text>
+      </View>
+      <TouchableOpacity style={styles.actionButton} onPress={() => discard(entry.id)}>
+        <X size={16} color="#666" />
+      </TouchableOpacity>
+    </View>
+  );
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <CloudOff size={20} color="#FF9500" />
+        <View style={styles.headerContent}>
+          <Text style={styles.title}>Pending Uploads ({pending.length})</Text>
+          <Text style={styles.hint}>{hint}</Text>
+        </View>
+        {online && (
+          <TouchableOpacity style={styles.uploadButton} onPress={drainOutbox}>
+            <Text style={styles.uploadButtonText}>Upload now</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.list}>{pending.map(renderEntry)}</View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 12,
+  },
+  headerContent: {
+    flex: 1,
+    marginLeft: 8,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  hint: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+  uploadButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    borderRadius: 8,
+    backgroundColor: '#007AFF',
+  },
+  uploadButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  list: {
+    gap: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  itemDate: {
+    fontSize: 12,
+    color: '#666',
+  },
+  actionButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f8ff',
+    marginLeft: 8,
+  },
+});
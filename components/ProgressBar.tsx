@@ -0,0 +1,31 @@
+import React from 'react';
+import { View, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+
+interface ProgressBarProps {
+  progress: number;
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+}
+
+export default function ProgressBar({ progress, color = '#007AFF', style }: ProgressBarProps) {
+  const percent = Math.round(Math.min(1, Math.max(0, progress)) * 100);
+
+  return (
+    <View style={[styles.track, style]}>
+      <View style={[styles.fill, { width: `${percent}%`, backgroundColor: color }]} />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  track: {
+    height: 6,
+    borderRadius: 3,
+    backgroundColor: '#e5e5e5',
+    overflow: 'hidden',
+  },
+  fill: {
+    height: '100%',
+    borderRadius: 3,
+  },
+});
@@ -0,0 +1,80 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { AlertCircle, X } from 'lucide-react-native';
+import type { ValidationResult } from '@/services/validation';
+
+interface RejectedFilesListProps {
+  rejections: ValidationResult[];
+  onDismiss: () => void;
+}
+
+export default function RejectedFilesList({ rejections, onDismiss }: RejectedFilesListProps) {
+  if (rejections.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <AlertCircle size={20} color="#FF3B30" />
+        <Text style={styles.title}>
+          {rejections.length} {rejections.length === 1 ? 'file was' : 'files were'} not uploaded
+        </Text>
+        <TouchableOpacity style={styles.dismissButton} onPress={onDismiss}>
+          <X size={16} color="#666" />
+        </TouchableOpacity>
+      </View>
+      {rejections.map((rejection, index) => (
+        <View key={`${rejection.fileName}_${index}`} style={styles.item}>
+          <Text style={styles.fileName} numberOfLines={1}>
+            {rejection.fileName}
+          </Text>
+          {rejection.reasons.map((reason) => (
+            <Text key={reason} style={styles.reason}>
+              • {reason}
+            </Text>
+          ))}
+        </View>
+      ))}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff5f5',
+    borderRadius: 12,
+    borderWidth: 1,
+    borderColor: '#ffd6d6',
+    padding: 16,
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  title: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#FF3B30',
+    marginLeft: 8,
+  },
+  dismissButton: {
+    padding: 4,
+  },
+  item: {
+    marginTop: 8,
+  },
+  fileName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 2,
+  },
+  reason: {
+    fontSize: 13,
+    color: '#666',
+  },
+});
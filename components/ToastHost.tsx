@@ -0,0 +1,94 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { CheckCircle, AlertCircle, Info } from 'lucide-react-native';
+import { useToastStore, ToastVariant } from '@/stores/toast';
+
+const VARIANT_COLORS: Record<ToastVariant, string> = {
+  success: '#34C759',
+  error: '#FF3B30',
+  info: '#007AFF',
+};
+
+const ToastIcon = ({ variant }: { variant: ToastVariant }) => {
+  const color = VARIANT_COLORS[variant];
+  switch (variant) {
+    case 'success':
+      return <CheckCircle size={20} color={color} />;
+    case 'error':
+      return <AlertCircle size={20} color={color} />;
+    default:
+      return <Info size={20} color={color} />;
+  }
+};
+
+// Renders toasts above every screen; touches outside the toasts pass through
+export default function ToastHost() {
+  const toasts = useToastStore((state) => state.toasts);
+  const dismiss = useToastStore((state) => state.dismiss);
+
+  if (toasts.length === 0) {
+    return null;
+  }
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']} pointerEvents="box-none">
+      {toasts.map((toast) => (
+        <TouchableOpacity
+          key={toast.id}
+          style={[styles.toast, { borderLeftColor: VARIANT_COLORS[toast.variant] }]}
+          onPress={() => dismiss(toast.id)}
+          activeOpacity={0.8}
+        >
+          <ToastIcon variant={toast.variant} />
+          <View style={styles.content}>
+            <Text style={styles.title}>{toast.title}</Text>
+            {toast.message && (
+              <Text style={styles.message} numberOfLines={3}>
+                {toast.message}
+              </Text>
+            )}
+          </View>
+        </TouchableOpacity>
+      ))}
+    </SafeAreaView>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    top: 0,
+    left: 0,
+    right: 0,
+    paddingHorizontal: 16,
+    gap: 8,
+  },
+  toast: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    borderLeftWidth: 4,
+    padding: 12,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.15,
+    shadowRadius: 6,
+    elevation: 6,
+  },
+  content: {
+    flex: 1,
+  },
+  title: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#1a1a1a',
+  },
+  message: {
+    fontSize: 13,
+    color: '#666',
+    marginTop: 2,
+  },
+});
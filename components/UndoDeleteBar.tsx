@@ -0,0 +1,75 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Trash2, AlertCircle, X } from 'lucide-react-native';
+import { useImageLibraryStore } from '@/stores/imageLibrary';
+
+export default function UndoDeleteBar() {
+  const pendingDeletion = useImageLibraryStore((state) => state.pendingDeletion);
+  const deletionError = useImageLibraryStore((state) => state.deletionError);
+  const undoDelete = useImageLibraryStore((state) => state.undoDelete);
+  const clearDeletionError = useImageLibraryStore((state) => state.clearDeletionError);
+
+  if (pendingDeletion.length > 0) {
+    return (
+      <View style={styles.bar}>
+        <Trash2 size={18} color="#fff" />
+        <Text style={styles.message}>
+          {pendingDeletion.length} {pendingDeletion.length === 1 ? 'image' : 'images'} deleted
+        </Text>
+        <TouchableOpacity onPress={undoDelete}>
+          <Text style={styles.action}>Undo</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  if (deletionError) {
+    return (
+      <View style={[styles.bar, styles.errorBar]}>
+        <AlertCircle size={18} color="#fff" />
+        <Text style={styles.message} numberOfLines={2}>
+          {deletionError}
+        </Text>
+        <TouchableOpacity onPress={clearDeletionError}>
+          <X size={18} color="#fff" />
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  return null;
+}
+
+const styles = StyleSheet.create({
+  bar: {
+    position: 'absolute',
+    left: 20,
+    right: 20,
+    bottom: 20,
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 12,
+    backgroundColor: '#1a1a1a',
+    borderRadius: 12,
+    paddingHorizontal: 16,
+    paddingVertical: 14,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 2 },
+    shadowOpacity: 0.2,
+    shadowRadius: 4,
+    elevation: 4,
+  },
+  errorBar: {
+    backgroundColor: '#FF3B30',
+  },
+  message: {
+    flex: 1,
+    fontSize: 14,
+    color: '#fff',
+  },
+  action: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#0A84FF',
+  },
+});
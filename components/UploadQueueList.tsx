@@ -0,0 +1,209 @@
+import React from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { Image } from 'expo-image';
+import { X, RotateCcw, CheckCircle, AlertCircle, Clock, Upload, Minimize2, PauseCircle } from 'lucide-react-native';
+import { useUploadQueueStore, isActiveStatus, isFinishedStatus, UploadQueueItem, UploadStatus } from '@/stores/uploadQueue';
+import { useAutoBackupStore } from '@/stores/autoBackup';
+import { markCacheUsed } from '@/stores/cacheAccess';
+import ProgressBar from '@/components/ProgressBar';
+import { formatBytes } from '@/utils/format';
+import { DEFAULT_RETRY_POLICY } from '@/services/retry';
+import { BACKUP_BLOCKER_LABELS } from '@/services/autoBackup';
+
+const STATUS_LABELS: Record<UploadStatus, string> = {
+  queued: 'Queued',
+  processing: 'Optimizing',
+  uploading: 'Uploading',
+  waiting: 'Waiting',
+  done: 'Uploaded',
+  failed: 'Failed',
+  cancelled: 'Cancelled',
+};
+
+const STATUS_COLORS: Record<UploadStatus, string> = {
+  queued: '#666',
+  processing: '#5856D6',
+  uploading: '#FF9500',
+  waiting: '#999',
+  done: '#34C759',
+  failed: '#FF3B30',
+  cancelled: '#999',
+};
+
+const StatusIcon = ({ status }: { status: UploadStatus }) => {
+  const color = STATUS_COLORS[status];
+  switch (status) {
+    case 'queued':
+      return <Clock size={16} color={color} />;
+    case 'processing':
+      return <Minimize2 size={16} color={color} />;
+    case 'uploading':
+      return <Upload size={16} color={color} />;
+    case 'waiting':
+      return <PauseCircle size={16} color={color} />;
+    case 'done':
+      return <CheckCircle size={16} color={color} />;
+    default:
+      return <AlertCircle size={16} color={color} />;
+  }
+};
+
+export default function UploadQueueList() {
+  const items = useUploadQueueStore((state) => state.items);
+  const retry = useUploadQueueStore((state) => state.retry);
+  const cancel = useUploadQueueStore((state) => state.cancel);
+  const remove = useUploadQueueStore((state) => state.remove);
+  const clearFinished = useUploadQueueStore((state) => state.clearFinished);
+  const backupBlocker = useAutoBackupStore((state) => state.blocker);
+
+  if (items.length === 0) {
+    return null;
+  }
+
+  const hasFinished = items.some((item) => isFinishedStatus(item.status));
+
+  const getStatusLabel = (item: UploadQueueItem) => {
+    if (item.status === 'failed' && item.error) return item.error;
+    if (item.status === 'waiting' && backupBlocker) return BACKUP_BLOCKER_LABELS[backupBlocker];
+    if (item.status === 'uploading' && item.attempt > 1) {
+      return `Retrying (${item.attempt}/${DEFAULT_RETRY_POLICY.maxAttempts})`;
+    }
+    return STATUS_LABELS[item.status];
+  };
+
+  const renderItem = (item: UploadQueueItem) => {
+    // Held items can be cancelled like ones in progress
+    const inProgress = isActiveStatus(item.status) || item.status === 'waiting';
+    const canRetry = item.status === 'failed' || item.status === 'cancelled';
+
+    return (
+      <View key={item.id} style={styles.item}>
+        <Image source={{ uri: item.uri }} style={styles.thumbnail} contentFit="cover" onLoad={() => markCacheUsed(item.uri)} />
+        <View style={styles.itemContent}>
+          <Text style={styles.itemName} numberOfLines={1}>
+            {item.fileName}
+          </Text>
+          <View style={styles.statusRow}>
+            <StatusIcon status={item.status} />
+            <Text style={[styles.statusText, { color: STATUS_COLORS[item.status] }]} numberOfLines={1}>
+              {getStatusLabel(item)}
+              {item.status === 'uploading' && item.totalBytes > 0 &&
+                ` · ${formatBytes(item.bytesTransferred)} / ${formatBytes(item.totalBytes)}`}
+              {item.status !== 'uploading' && item.originalBytes !== undefined &&
+                ` · ${formatBytes(item.originalBytes)} → ${formatBytes(item.totalBytes)}`}
+            </Text>
+          </View>
+          {item.status === 'uploading' && (
+            <ProgressBar
+              progress={item.totalBytes > 0 ? item.bytesTransferred / item.totalBytes : 0}
+              color={STATUS_COLORS.uploading}
+              style={styles.progress}
+            />
+          )}
+        </View>
+        <View style={styles.itemActions}>
+          {canRetry && (
+            <TouchableOpacity style={styles.actionButton} onPress={() => retry(item.id)}>
+              <RotateCcw size={16} color="#007AFF" />
+            </TouchableOpacity>
+          )}
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => (inProgress ? cancel(item.id) : remove(item.id))}
+          >
+            <X size={16} color={inProgress ? '#FF3B30' : '#666'} />
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Text style={styles.title}>Upload Queue ({items.length})</Text>
+        {hasFinished && (
+          <TouchableOpacity onPress={clearFinished}>
+            <Text style={styles.clearText}>Clear finished</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+      <View style={styles.list}>{items.map(renderItem)}</View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginBottom: 24,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: 12,
+  },
+  title: {
+    fontSize: 20,
+    fontWeight: 'bold',
+    color: '#1a1a1a',
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  list: {
+    gap: 8,
+  },
+  item: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 10,
+    shadowColor: '#000',
+    shadowOffset: { width: 0, height: 1 },
+    shadowOpacity: 0.1,
+    shadowRadius: 2,
+    elevation: 2,
+  },
+  thumbnail: {
+    width: 44,
+    height: 44,
+    borderRadius: 8,
+    backgroundColor: '#f0f0f0',
+  },
+  itemContent: {
+    flex: 1,
+    marginLeft: 12,
+  },
+  itemName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1a1a1a',
+    marginBottom: 4,
+  },
+  statusRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+  },
+  statusText: {
+    flex: 1,
+    fontSize: 12,
+  },
+  progress: {
+    marginTop: 6,
+  },
+  itemActions: {
+    flexDirection: 'row',
+    gap: 8,
+    marginLeft: 8,
+  },
+  actionButton: {
+    padding: 8,
+    borderRadius: 6,
+    backgroundColor: '#f0f8ff',
+  },
+});
@@ -0,0 +1,229 @@
+import React, { useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity, ScrollView, TextInput } from 'react-native';
+import { FolderPlus, Tag, X } from 'lucide-react-native';
+import { useAlbumsStore, Album } from '@/stores/albums';
+import { showToast } from '@/stores/toast';
+import { confirmAction } from '@/stores/choiceSheet';
+import { parseTags } from '@/utils/albums';
+
+// Album and tags applied to the next uploads, shown above the upload zone
+export default function UploadTargetPicker() {
+  const albums = useAlbumsStore((state) => state.albums);
+  const uploadAlbumId = useAlbumsStore((state) => state.uploadAlbumId);
+  const uploadTags = useAlbumsStore((state) => state.uploadTags);
+  const createAlbum = useAlbumsStore((state) => state.createAlbum);
+  const removeAlbum = useAlbumsStore((state) => state.removeAlbum);
+  const setUploadAlbum = useAlbumsStore((state) => state.setUploadAlbum);
+  const setUploadTags = useAlbumsStore((state) => state.setUploadTags);
+  const [newAlbumName, setNewAlbumName] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const submitAlbum = () => {
+    if (!newAlbumName?.trim()) {
+      setNewAlbumName(null);
+      return;
+    }
+    const album = createAlbum(newAlbumName);
+    if (!album) {
+      showToast('Invalid Name', 'Album names need at least one letter or number, and "All" and "Thumbnails" are reserved.', 'error');
+      return;
+    }
+    setUploadAlbum(album.id);
+    setNewAlbumName(null);
+  };
+
+  const confirmRemoveAlbum = (album: Album) => {
+    confirmAction(
+      'Remove Album',
+      `Remove "${album.name}" from this list? Images already in it are not deleted.`,
+      'Remove',
+      () => removeAlbum(album.id),
+      { destructive: true }
+    );
+  };
+
+  const addTags = () => {
+    const tags = parseTags(tagInput);
+    if (tags.length > 0) {
+      setUploadTags(Array.from(new Set([...uploadTags, ...tags])));
+    }
+    setTagInput('');
+  };
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.label}>Album</Text>
+      <ScrollView horizontal showsHorizontalScrollIndicator={false} contentContainerStyle={styles.chips}>
+        <TouchableOpacity
+          style={[styles.chip, uploadAlbumId === null && styles.chipActive]}
+          onPress={() => setUploadAlbum(null)}
+        >
+          <Text style={[styles.chipText, uploadAlbumId === null && styles.chipTextActive]}>No album</Text>
+        </TouchableOpacity>
+        {albums.map((album) => (
+          <TouchableOpacity
+            key={album.id}
+            style={[styles.chip, album.id === uploadAlbumId && styles.chipActive]}
+            onPress={() => setUploadAlbum(album.id)}
+            onLongPress={() => confirmRemoveAlbum(album)}
+          >
+            <Text style={[styles.chipText, album.id === uploadAlbumId && styles.chipTextActive]}>{album.name}</Text>
+          </TouchableOpacity>
+        ))}
+        {newAlbumName === null && (
+          <TouchableOpacity style={[styles.chip, styles.newChip]} onPress={() => setNewAlbumName('')}>
+            <FolderPlus size={14} color="#007AFF" />
+            <Text style={styles.newChipText}>New album</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
+      {newAlbumName !== null && (
+        <View style={styles.inputRow}>
+          <TextInput
+            style={styles.input}
+            value={newAlbumName}
+            onChangeText={setNewAlbumName}
+            onSubmitEditing={submitAlbum}
+            placeholder="Album name"
+            placeholderTextColor="#999"
+            returnKeyType="done"
+            autoFocus
+          />
+          <TouchableOpacity style={styles.inputButton} onPress={submitAlbum}>
+            <Text style={styles.inputButtonText}>Create</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.iconButton} onPress={() => setNewAlbumName(null)}>
+            <X size={16} color="#666" />
+          </TouchableOpacity>
+        </View>
+      )}
+
+      <Text style={[styles.label, styles.tagsLabel]}>Tags</Text>
+      {uploadTags.length > 0 && (
+        <View style={styles.tags}>
+          {uploadTags.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.tag}
+              onPress={() => setUploadTags(uploadTags.filter((candidate) => candidate !== tag))}
+            >
+              <Text style={styles.tagText}>#{tag}</Text>
+              <X size={12} color="#5856D6" />
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+      <View style={styles.inputRow}>
+        <Tag size={16} color="#666" />
+        <TextInput
+          style={styles.input}
+          value={tagInput}
+          onChangeText={setTagInput}
+          onSubmitEditing={addTags}
+          onBlur={addTags}
+          placeholder="Add tags, e.g. travel, family"
+          placeholderTextColor="#999"
+          autoCapitalize="none"
+          returnKeyType="done"
+        />
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: '#fff',
+    borderRadius: 12,
+    padding: 16,
+    marginBottom: 16,
+  },
+  label: {
+    fontSize: 13,
+    fontWeight: '600',
+    color: '#666',
+    marginBottom: 8,
+  },
+  tagsLabel: {
+    marginTop: 16,
+  },
+  chips: {
+    gap: 8,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 16,
+    backgroundColor: '#f5f5f5',
+  },
+  chipActive: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  chipTextActive: {
+    color: '#fff',
+    fontWeight: '600',
+  },
+  newChip: {
+    backgroundColor: '#f0f8ff',
+  },
+  newChipText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+    marginTop: 8,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    backgroundColor: '#f5f5f5',
+  },
+  input: {
+    flex: 1,
+    paddingVertical: 10,
+    fontSize: 14,
+    color: '#1a1a1a',
+  },
+  inputButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    borderRadius: 6,
+    backgroundColor: '#007AFF',
+  },
+  inputButtonText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#fff',
+  },
+  iconButton: {
+    padding: 4,
+  },
+  tags: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: 6,
+  },
+  tag: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    paddingHorizontal: 10,
+    paddingVertical: 4,
+    borderRadius: 12,
+    backgroundColor: '#f0efff',
+  },
+  tagText: {
+    fontSize: 13,
+    fontWeight: '500',
+    color: '#5856D6',
+  },
+});
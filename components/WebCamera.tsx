@@ -0,0 +1,145 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { View, Text, StyleSheet, TouchableOpacity } from 'react-native';
+import { SwitchCamera } from 'lucide-react-native';
+
+export interface CapturedPhoto {
+  uri: string;
+  fileName: string;
+  width?: number;
+  height?: number;
+}
+
+interface WebCameraProps {
+  onCapture: (photo: CapturedPhoto) => void;
+  onError: (error: unknown) => void;
+}
+
+export const isWebCameraAvailable = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia;
+
+// Live camera preview for browsers, built on getUserMedia; frames are captured through a canvas
+export default function WebCamera({ onCapture, onError }: WebCameraProps) {
+  const videoRef = useRef<HTMLVideoElement | null>(null);
+  const [facingMode, setFacingMode] = useState<'environment' | 'user'>('environment');
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let active = true;
+    let stream: MediaStream | null = null;
+    setReady(false);
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode }, audio: false })
+      .then((mediaStream) => {
+        stream = mediaStream;
+        if (!active) {
+          mediaStream.getTracks().forEach((track) => track.stop());
+          return;
+        }
+        if (videoRef.current) {
+          videoRef.current.srcObject = mediaStream;
+          videoRef.current.play().then(() => setReady(true)).catch(onError);
+        }
+      })
+      .catch(onError);
+
+    return () => {
+      active = false;
+      stream?.getTracks().forEach((track) => track.stop());
+    };
+  }, [facingMode, onError]);
+
+  const capture = () => {
+    const video = videoRef.current;
+    if (!video || !video.videoWidth) return;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    canvas.getContext('2d')?.drawImage(video, 0, 0);
+
+    onCapture({
+      uri: canvas.toDataURL('image/jpeg', 0.9),
+      fileName: `photo_${Date.now()}.jpg`,
+      width: canvas.width,
+      height: canvas.height,
+    });
+  };
+
+  return (
+    <View style={styles.container}>
+      <video ref={videoRef} playsInline muted style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+      <View style={styles.controls}>
+        <TouchableOpacity
+          style={styles.switchButton}
+          onPress={() => setFacingMode((mode) => (mode === 'environment' ? 'user' : 'environment'))}
+        >
+          <SwitchCamera size={24} color="#fff" />
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.shutter, !ready && styles.shutterDisabled]}
+          onPress={capture}
+          disabled={!ready}
+        >
+          <View style={styles.shutterInner} />
+        </TouchableOpacity>
+        <View style={styles.switchButton} />
+      </View>
+      {!ready && (
+        <View style={styles.loading}>
+          <Text style={styles.loadingText}>Starting camera...</Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#000',
+  },
+  controls: {
+    position: 'absolute',
+    bottom: 32,
+    left: 0,
+    right: 0,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-around',
+  },
+  switchButton: {
+    width: 48,
+    height: 48,
+    borderRadius: 24,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutter: {
+    width: 72,
+    height: 72,
+    borderRadius: 36,
+    borderWidth: 4,
+    borderColor: '#fff',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  shutterDisabled: {
+    opacity: 0.5,
+  },
+  shutterInner: {
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: '#fff',
+  },
+  loading: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  loadingText: {
+    fontSize: 16,
+    color: '#fff',
+  },
+});
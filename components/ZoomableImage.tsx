@@ -0,0 +1,121 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Animated, StyleSheet } from 'react-native';
+import { Gesture, GestureDetector } from 'react-native-gesture-handler';
+
+const MIN_SCALE = 1;
+const MAX_SCALE = 4;
+const DOUBLE_TAP_SCALE = 2.5;
+
+interface ZoomableImageProps {
+  uri: string;
+  width: number;
+  height: number;
+  onZoomChange?: (zoomed: boolean) => void;
+}
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// Pinch to zoom, pan while zoomed and double tap to toggle zoom. Panning is only enabled
+// once zoomed in so horizontal swipes still reach the pager underneath.
+export default function ZoomableImage({ uri, width, height, onZoomChange }: ZoomableImageProps) {
+  const scale = useRef(new Animated.Value(1)).current;
+  const translateX = useRef(new Animated.Value(0)).current;
+  const translateY = useRef(new Animated.Value(0)).current;
+  const current = useRef({ scale: 1, x: 0, y: 0 });
+  const [zoomed, setZoomed] = useState(false);
+
+  const gesture = useMemo(() => {
+    const updateZoomed = (next: boolean) => {
+      setZoomed(next);
+      onZoomChange?.(next);
+    };
+
+    const reset = () => {
+      current.current = { scale: 1, x: 0, y: 0 };
+      Animated.parallel([
+        Animated.spring(scale, { toValue: 1, useNativeDriver: true }),
+        Animated.spring(translateX, { toValue: 0, useNativeDriver: true }),
+        Animated.spring(translateY, { toValue: 0, useNativeDriver: true }),
+      ]).start();
+      updateZoomed(false);
+    };
+
+    // Keeps the scaled image covering the viewport instead of sliding off screen
+    const bounds = (value: number, size: number, zoom: number) => {
+      const limit = (size * (zoom - 1)) / 2;
+      return clamp(value, -limit, limit);
+    };
+
+    const pinch = Gesture.Pinch()
+      .runOnJS(true)
+      .onUpdate((event) => {
+        scale.setValue(clamp(current.current.scale * event.scale, MIN_SCALE * 0.8, MAX_SCALE));
+      })
+      .onEnd((event) => {
+        const next = clamp(current.current.scale * event.scale, MIN_SCALE, MAX_SCALE);
+        if (next <= 1.05) {
+          reset();
+          return;
+        }
+        current.current.scale = next;
+        scale.setValue(next);
+        updateZoomed(true);
+      });
+
+    const pan = Gesture.Pan()
+      .runOnJS(true)
+      .enabled(zoomed)
+      .onUpdate((event) => {
+        const zoom = current.current.scale;
+        translateX.setValue(bounds(current.current.x + event.translationX, width, zoom));
+        translateY.setValue(bounds(current.current.y + event.translationY, height, zoom));
+      })
+      .onEnd((event) => {
+        const zoom = current.current.scale;
+        current.current.x = bounds(current.current.x + event.translationX, width, zoom);
+        current.current.y = bounds(current.current.y + event.translationY, height, zoom);
+      });
+
+    const doubleTap = Gesture.Tap()
+      .runOnJS(true)
+      .numberOfTaps(2)
+      .onEnd(() => {
+        if (current.current.scale > 1) {
+          reset();
+          return;
+        }
+        current.current.scale = DOUBLE_TAP_SCALE;
+        Animated.spring(scale, { toValue: DOUBLE_TAP_SCALE, useNativeDriver: true }).start();
+        updateZoomed(true);
+      });
+
+    return Gesture.Exclusive(doubleTap, Gesture.Simultaneous(pinch, pan));
+  }, [zoomed, width, height, scale, translateX, translateY, onZoomChange]);
+
+  return (
+    <GestureDetector gesture={gesture}>
+      <Animated.View style={[styles.container, { width, height }]}>
+        <Animated.Image
+          source={{ uri }}
+          resizeMode="contain"
+          style={[
+            styles.image,
+            { transform: [{ translateX }, { translateY }, { scale }] },
+          ]}
+        />
+      </Animated.View>
+    </GestureDetector>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    overflow: 'hidden',
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  image: {
+    width: '100%',
+    height: '100%',
+  },
+});
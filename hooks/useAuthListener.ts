@@ -0,0 +1,18 @@
+import { useEffect } from 'react';
+import { useAuthStore } from '@/stores/auth';
+import { signInAsGuest, subscribeToAuthChanges } from '@/services/auth';
+
+// Keeps the auth store in sync with Firebase. Without a session the app continues as an
+// anonymous guest, so uploads work before anyone creates an account.
+export function useAuthListener() {
+  const setUser = useAuthStore((state) => state.setUser);
+
+  useEffect(() => subscribeToAuthChanges((user) => {
+    setUser(user);
+    if (!user) {
+      signInAsGuest().catch(() => {
+        // Offline or anonymous sign-in disabled; the Profile screen still offers sign-in
+      });
+    }
+  }), [setUser]);
+}
@@ -0,0 +1,178 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import * as MediaLibrary from 'expo-media-library';
+import { useNetworkState } from 'expo-network';
+import { useBatteryState } from 'expo-battery';
+import { useSettingsStore } from '@/stores/settings';
+import { useAutoBackupStore } from '@/stores/autoBackup';
+import { useUploadQueueStore, UploadRequest } from '@/stores/uploadQueue';
+import { useOutboxStore } from '@/stores/outbox';
+import { useImageLibraryStore, isVisibleTo } from '@/stores/imageLibrary';
+import { useAuthStore } from '@/stores/auth';
+import { getActiveStorageProvider, useStorageProviderStore } from '@/stores/storageProvider';
+import {
+  findNewPhotos,
+  getBackupBlocker,
+  isAutoBackupSupported,
+  prepareLibraryPhoto,
+  BackupBlocker,
+  LibraryPhoto,
+} from '@/services/autoBackup';
+import { renameForFormat } from '@/services/compression';
+import { isConfigured } from '@/services/config';
+
+let rescan = false;
+
+// Photos already uploaded, whether backed up or picked on the Upload tab, or already in the
+// library under the same name and size (e.g. uploaded from another device)
+const createUploadedCheck = () => {
+  const uid = useAuthStore.getState().user?.uid ?? null;
+  const uploaded = new Set(useAutoBackupStore.getState().uploadedAssetIds);
+  const library = new Set(
+    useImageLibraryStore.getState().images
+      .filter((image) => isVisibleTo(image, uid))
+      .map((image) => `${image.name}_${image.width}x${image.height}`)
+  );
+  return (photo: LibraryPhoto) =>
+    uploaded.has(photo.assetId) ||
+    [photo.fileName, renameForFormat(photo.fileName, 'jpeg')].some((name) =>
+      library.has(`${name}_${photo.width}x${photo.height}`)
+    );
+};
+
+// Photos waiting in the upload queue or outbox
+const createPendingCheck = () => {
+  const pending = new Set([
+    ...useUploadQueueStore.getState().items.flatMap((item) => (item.assetId ? [item.assetId] : [])),
+    ...useOutboxStore.getState().entries.flatMap((entry) => (entry.assetId ? [entry.assetId] : [])),
+  ]);
+  return (photo: LibraryPhoto) => pending.has(photo.assetId);
+};
+
+// Photos aren't submitted to an unconfigured provider, where they would only be rejected, and
+// Firebase Storage only accepts files from a signed-in user
+const getProviderBlocker = (): BackupBlocker | null => {
+  const provider = getActiveStorageProvider();
+  if (!isConfigured(provider.id)) return 'provider';
+  if (provider.id === 'firebase' && !useAuthStore.getState().user) return 'signin';
+  return null;
+};
+
+// Records what currently rules out a backup; the upload queue holds Auto Upload's photos while
+// it is set
+const checkBlocker = async () => {
+  const { wifiOnly, chargingOnly } = useSettingsStore.getState();
+  const blocker = getProviderBlocker() ?? (await getBackupBlocker({ wifiOnly, chargingOnly }));
+  useAutoBackupStore.getState().setBlocker(blocker);
+  return blocker;
+};
+
+// Submits photos added to the device library since the last sync, once the Wi-Fi and charging
+// conditions chosen in Settings are met
+export const runAutoBackup = async () => {
+  const { autoUpload } = useSettingsStore.getState();
+  const backup = useAutoBackupStore.getState();
+  if (!autoUpload || !isAutoBackupSupported()) return;
+  // The scan is repeated once the current one ends, but queued photos are held or released now
+  if (backup.scanning) {
+    rescan = true;
+    await checkBlocker().catch((error) => console.error('Auto upload error:', error));
+    return;
+  }
+
+  backup.start();
+  backup.setScanning(true);
+  try {
+    if (await checkBlocker()) return;
+
+    const syncedUntil = useAutoBackupStore.getState().syncedUntil ?? Date.now();
+    const photos = await findNewPhotos(syncedUntil);
+    const isUploaded = createUploadedCheck();
+    const isPending = createPendingCheck();
+    const requests: UploadRequest[] = [];
+    for (const photo of photos.filter((candidate) => !isUploaded(candidate) && !isPending(candidate))) {
+      try {
+        const prepared = await prepareLibraryPhoto(photo);
+        requests.push({
+          uri: prepared.uri,
+          fileName: prepared.fileName,
+          width: prepared.width,
+          height: prepared.height,
+          assetId: prepared.assetId,
+          autoBackup: true,
+        });
+      } catch (error) {
+        console.error(`Auto upload error for ${photo.fileName}:`, error);
+      }
+    }
+
+    if (requests.length > 0) {
+      // Converting photos can take a while, so the conditions are checked again; photos submitted
+      // while they aren't met wait in the queue
+      await checkBlocker();
+      await useUploadQueueStore.getState().submit(requests);
+    }
+
+    // The cursor stops short of the oldest photo not uploaded yet. The queue only lives in memory,
+    // so photos still in it are found again by a later scan if the app is closed first, and ones
+    // that couldn't be converted or were rejected are tried again.
+    const firstMissing = photos.find((photo) => !isUploaded(photo));
+    backup.advance(
+      photos
+        .filter((photo) => !firstMissing || photo.createdAt < firstMissing.createdAt)
+        .reduce((latest, photo) => Math.max(latest, photo.createdAt), syncedUntil)
+    );
+  } catch (error) {
+    console.error('Auto upload error:', error);
+  } finally {
+    backup.setScanning(false);
+    if (rescan) {
+      rescan = false;
+      runAutoBackup();
+    }
+  }
+};
+
+// Backs up new photos while Auto Upload is on: on launch, when the app returns to the
+// foreground, when the photo library changes, when the provider or signed-in user changes and
+// when the network or charging state does
+export function useAutoBackup() {
+  const autoUpload = useSettingsStore((state) => state.autoUpload);
+  const wifiOnly = useSettingsStore((state) => state.wifiOnly);
+  const chargingOnly = useSettingsStore((state) => state.chargingOnly);
+  const providerId = useStorageProviderStore((state) => state.providerId);
+  const signedIn = useAuthStore((state) => state.user !== null);
+  const network = useNetworkState();
+  const batteryState = useBatteryState();
+  const [hydrated, setHydrated] = useState(useAutoBackupStore.persist.hasHydrated());
+
+  useEffect(() => useAutoBackupStore.persist.onFinishHydration(() => setHydrated(true)), []);
+
+  const enabled = hydrated && autoUpload && isAutoBackupSupported();
+
+  useEffect(() => {
+    if (enabled) {
+      runAutoBackup();
+    } else {
+      // Photos held for Wi-Fi or charging are dropped rather than sent once Auto Upload is off.
+      // The cursor hasn't passed them, so they are backed up if it is turned on again.
+      const queue = useUploadQueueStore.getState();
+      queue.items
+        .filter((item) => item.autoBackup && item.status === 'waiting')
+        .forEach((item) => queue.remove(item.id));
+    }
+  }, [enabled, providerId, signedIn, wifiOnly, chargingOnly, network.type, network.isInternetReachable, batteryState]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const library = MediaLibrary.addListener(() => runAutoBackup());
+    const appState = AppState.addEventListener('change', (state) => {
+      if (state === 'active') runAutoBackup();
+    });
+    return () => {
+      library.remove();
+      appState.remove();
+    };
+  }, [enabled]);
+}
@@ -0,0 +1,36 @@
+import { useEffect, useState } from 'react';
+import { AppState } from 'react-native';
+import { useSettingsStore } from '@/stores/settings';
+import { useUploadQueueStore } from '@/stores/uploadQueue';
+import { useOutboxStore } from '@/stores/outbox';
+import { useCacheAccessStore } from '@/stores/cacheAccess';
+import { enforceCacheLimit } from '@/services/cache';
+
+// Files the upload queue and outbox still point at, including processed copies being uploaded,
+// which cache clean-up must leave alone
+export const getInUseFiles = () =>
+  new Set([
+    ...useUploadQueueStore.getState().items.flatMap((item) => (item.processedUri ? [item.uri, item.processedUri] : [item.uri])),
+    ...useOutboxStore.getState().entries.map((entry) => entry.uri),
+  ]);
+
+// Trims the cache to the configured size on launch, when the limit changes and whenever the
+// app goes to the background, once the recorded access times have loaded
+export function useCacheLimit() {
+  const cacheLimit = useSettingsStore((state) => state.cacheLimit);
+  const [hydrated, setHydrated] = useState(useCacheAccessStore.persist.hasHydrated());
+
+  useEffect(() => useCacheAccessStore.persist.onFinishHydration(() => setHydrated(true)), []);
+
+  useEffect(() => {
+    if (!hydrated) return;
+
+    const trim = () => enforceCacheLimit(cacheLimit, getInUseFiles(), useCacheAccessStore.getState().usedAt);
+    trim();
+
+    const subscription = AppState.addEventListener('change', (state) => {
+      if (state === 'background') trim();
+    });
+    return () => subscription.remove();
+  }, [cacheLimit, hydrated]);
+}
@@ -0,0 +1,53 @@
+import { useCallback, useState } from 'react';
+import { Alert } from 'react-native';
+import { useFocusEffect } from 'expo-router';
+import { useUploadQueueStore } from '@/stores/uploadQueue';
+import { showToast } from '@/stores/toast';
+import { getCacheUsage, clearCache, CacheUsage, ClearCacheScope } from '@/services/cache';
+import { getInUseFiles } from '@/hooks/useCacheLimit';
+import { formatBytes } from '@/utils/format';
+
+// Cache size for the Settings screen, refreshed whenever it comes into focus, and the
+// selective clear actions
+export function useCacheManager() {
+  const [usage, setUsage] = useState<CacheUsage | null>(null);
+  const [clearing, setClearing] = useState(false);
+
+  const refresh = useCallback(async () => {
+    try {
+      setUsage(await getCacheUsage());
+    } catch {
+      setUsage(null);
+    }
+  }, []);
+
+  useFocusEffect(
+    useCallback(() => {
+      refresh();
+    }, [refresh])
+  );
+
+  const clear = useCallback(async (scope: ClearCacheScope) => {
+    setClearing(true);
+    try {
+      let discard: string[] = [];
+      if (scope === 'failed') {
+        // Failed and cancelled uploads leave the queue along with their files
+        const queue = useUploadQueueStore.getState();
+        const failed = queue.items.filter((item) => item.status === 'failed' || item.status === 'cancelled');
+        failed.forEach((item) => queue.remove(item.id));
+        discard = failed.flatMap((item) => (item.processedUri ? [item.uri, item.processedUri] : [item.uri]));
+      }
+
+      const freed = await clearCache(scope, { keep: getInUseFiles(), discard });
+      await refresh();
+      showToast('Cache cleared', freed > 0 ? `Freed ${formatBytes(freed)}` : 'There was nothing to remove', freed > 0 ? 'success' : 'info');
+    } catch (error) {
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to clear the cache');
+    } finally {
+      setClearing(false);
+    }
+  }, [refresh]);
+
+  return { usage, clearing, refresh, clear };
+}
@@ -0,0 +1,70 @@
+import { useCallback, useState } from 'react';
+import type { LibraryImage } from '@/stores/imageLibrary';
+import { showToast } from '@/stores/toast';
+import { showChoices } from '@/stores/choiceSheet';
+import {
+  downloadImage,
+  getRenditions,
+  shareImage,
+  Rendition,
+  RENDITION_LABELS,
+} from '@/services/download';
+
+export type TransferAction = 'share' | 'download';
+
+export interface ImageTransfer {
+  action: TransferAction;
+  progress: number;
+}
+
+// Tracks share and download progress per image and reports failures. Images with more than one
+// rendition ask which one to use first.
+export function useImageTransfers() {
+  const [transfers, setTransfers] = useState<Record<string, ImageTransfer>>({});
+
+  const run = useCallback(async (image: LibraryImage, action: TransferAction, rendition: Rendition) => {
+    const update = (progress: number) =>
+      setTransfers((current) => ({ ...current, [image.id]: { action, progress } }));
+
+    update(0);
+    try {
+      if (action === 'share') {
+        await shareImage(image, { rendition, onProgress: update });
+      } else {
+        await downloadImage(image, { rendition, onProgress: update });
+        showToast('Saved', `${image.name} was saved${rendition === 'original' ? '' : ` (${RENDITION_LABELS[rendition]})`}`);
+      }
+    } catch (error) {
+      showToast(
+        action === 'share' ? 'Share failed' : 'Download failed',
+        error instanceof Error ? error.message : 'Something went wrong',
+        'error'
+      );
+    } finally {
+      setTransfers(({ [image.id]: _finished, ...rest }) => rest);
+    }
+  }, []);
+
+  const start = useCallback((image: LibraryImage, action: TransferAction) => {
+    const renditions = getRenditions(image);
+    if (renditions.length === 1) {
+      run(image, action, renditions[0]);
+      return;
+    }
+
+    showChoices(
+      action === 'share' ? 'Share Image' : 'Download Image',
+      'Choose a size',
+      renditions.map((rendition) => ({
+        label: RENDITION_LABELS[rendition],
+        onPress: () => run(image, action, rendition),
+      }))
+    );
+  }, [run]);
+
+  return {
+    transfers,
+    share: useCallback((image: LibraryImage) => start(image, 'share'), [start]),
+    download: useCallback((image: LibraryImage) => start(image, 'download'), [start]),
+  };
+}
@@ -0,0 +1,132 @@
+import { useCallback, useState } from 'react';
+import * as DocumentPicker from 'expo-document-picker';
+import { useImageLibraryStore, LibraryImage } from '@/stores/imageLibrary';
+import { useAlbumsStore } from '@/stores/albums';
+import { useUploadQueueStore, UploadRequest } from '@/stores/uploadQueue';
+import { showToast } from '@/stores/toast';
+import { showChoices, confirmAction } from '@/stores/choiceSheet';
+import {
+  exportLibrary,
+  readArchive,
+  extractArchivedImage,
+  ArchiveContents,
+  ArchiveProgress,
+} from '@/services/archive';
+import { getCurrentUserId } from '@/services/auth';
+import { formatBytes } from '@/utils/format';
+
+// Exports the signed-in user's library to a ZIP and imports one back, reporting progress for
+// the Settings screen
+export function useLibraryArchive(images: LibraryImage[]) {
+  const [exportProgress, setExportProgress] = useState<ArchiveProgress | null>(null);
+  const [importing, setImporting] = useState(false);
+
+  const runExport = useCallback(async () => {
+    try {
+      const result = await exportLibrary(images, useAlbumsStore.getState().albums, { onProgress: setExportProgress });
+      const summary = `${result.exported} ${result.exported === 1 ? 'image' : 'images'} exported to ${result.fileName} (${formatBytes(result.bytes)}).`;
+      if (result.skipped.length > 0) {
+        showToast(
+          'Export complete',
+          `${summary} ${result.skipped.length} could not be downloaded and are only listed in the manifest: ${result.skipped.join(', ')}`,
+          'info'
+        );
+      } else {
+        showToast('Export complete', summary);
+      }
+    } catch (error) {
+      console.error('Export error:', error);
+      showToast('Export failed', error instanceof Error ? error.message : 'Something went wrong', 'error');
+    } finally {
+      setExportProgress(null);
+    }
+  }, [images]);
+
+  const exportAll = useCallback(() => {
+    if (images.length === 0) {
+      showToast('Nothing to export', 'Your library is empty', 'info');
+      return;
+    }
+    confirmAction(
+      'Export Data',
+      `Download all ${images.length} images with a manifest of their details, tags and albums as a ZIP archive?`,
+      'Export',
+      runExport
+    );
+  }, [images, runExport]);
+
+  // Adds the archived records as they were, pointing at the files still held by their providers
+  const restoreRecords = useCallback(({ manifest }: ArchiveContents) => {
+    const ownerId = getCurrentUserId() ?? undefined;
+    useAlbumsStore.getState().mergeAlbums(manifest.albums ?? []);
+    const added = useImageLibraryStore.getState().importImages(
+      manifest.images.map(({ file: _file, ...image }) => ({ ...image, ownerId }))
+    );
+    showToast('Import complete', `${added} of ${manifest.images.length} images added to your library`);
+  }, []);
+
+  // Uploads the archived files again to the active provider, keeping their albums and tags. Each
+  // file is read from the archive only when its turn comes.
+  const uploadAgain = useCallback(async ({ manifest, readFile }: ArchiveContents) => {
+    useAlbumsStore.getState().mergeAlbums(manifest.albums ?? []);
+    const requests: UploadRequest[] = [];
+    for (const image of manifest.images) {
+      const data = image.file ? await readFile(image.file) : null;
+      if (!data) continue;
+      requests.push({
+        uri: await extractArchivedImage(image, data),
+        fileName: image.name,
+        album: image.album,
+        tags: image.tags,
+        exif: image.exif,
+      });
+    }
+    if (requests.length === 0) {
+      showToast('Nothing to upload', 'The archive has no image files', 'info');
+      return;
+    }
+    await useUploadQueueStore.getState().submit(requests);
+    showToast('Import started', `${requests.length} images were added to the upload queue`);
+  }, []);
+
+  const importArchive = useCallback(async () => {
+    try {
+      const result = await DocumentPicker.getDocumentAsync({
+        type: ['application/zip', 'application/x-zip-compressed'],
+        copyToCacheDirectory: true,
+      });
+      if (result.canceled || !result.assets[0]) return;
+
+      setImporting(true);
+      const contents = await readArchive(result.assets[0].uri);
+      setImporting(false);
+
+      const count = contents.manifest.images.length;
+      showChoices(
+        'Import Data',
+        `The archive from ${new Date(contents.manifest.exportedAt).toLocaleDateString()} has ${count} ${count === 1 ? 'image' : 'images'}.`,
+        [
+          {
+            label: 'Restore Records',
+            subtitle: 'Add the original records, pointing at files still held by their providers',
+            onPress: () => restoreRecords(contents),
+          },
+          {
+            label: 'Upload Again',
+            subtitle: 'Upload the archived files to your current storage provider',
+            onPress: () => uploadAgain(contents).catch((error) => {
+              console.error('Import upload error:', error);
+              showToast('Import failed', error instanceof Error ? error.message : 'Something went wrong', 'error');
+            }),
+          },
+        ]
+      );
+    } catch (error) {
+      console.error('Import error:', error);
+      setImporting(false);
+      showToast('Import failed', error instanceof Error ? error.message : 'Something went wrong', 'error');
+    }
+  }, [restoreRecords, uploadAgain]);
+
+  return { exportProgress, importing, exportAll, importArchive };
+}
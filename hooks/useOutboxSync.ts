@@ -0,0 +1,45 @@
+import { useEffect, useState } from 'react';
+import { useNetworkState } from 'expo-network';
+import { useOutboxStore } from '@/stores/outbox';
+import { useUploadQueueStore } from '@/stores/uploadQueue';
+import { useSettingsStore } from '@/stores/settings';
+import { isNetworkStateOnline } from '@/services/network';
+
+// Moves every waiting outbox entry into the upload queue
+export const drainOutbox = () => {
+  const outbox = useOutboxStore.getState();
+  const pending = outbox.entries.filter((entry) => entry.status === 'pending');
+  if (pending.length === 0) return;
+
+  outbox.markSending(pending.map((entry) => entry.id));
+  useUploadQueueStore.getState().enqueue(
+    pending.map(({ id, uri, fileName, mimeType, width, height, exif, album, tags, assetId, autoBackup }) => ({
+      uri,
+      fileName,
+      mimeType,
+      width,
+      height,
+      exif,
+      album,
+      tags,
+      assetId,
+      autoBackup,
+      outboxId: id,
+    }))
+  );
+};
+
+// Drains the outbox on launch and whenever connectivity returns, as long as Auto Upload is on
+export function useOutboxSync() {
+  const autoUpload = useSettingsStore((state) => state.autoUpload);
+  const online = isNetworkStateOnline(useNetworkState());
+  const [hydrated, setHydrated] = useState(useOutboxStore.persist.hasHydrated());
+
+  useEffect(() => useOutboxStore.persist.onFinishHydration(() => setHydrated(true)), []);
+
+  useEffect(() => {
+    if (hydrated && autoUpload && online) {
+      drainOutbox();
+    }
+  }, [hydrated, autoUpload, online]);
+}
@@ -0,0 +1,56 @@
+import { useEffect } from 'react';
+import { AppState } from 'react-native';
+import { useUploadQueueStore, isActiveStatus, UploadQueueItem } from '@/stores/uploadQueue';
+import { getActiveStorageProvider } from '@/stores/storageProvider';
+import { useSettingsStore } from '@/stores/settings';
+import { showToast } from '@/stores/toast';
+import { sendLocalNotification } from '@/services/notifications';
+
+const plural = (count: number) => `${count} ${count === 1 ? 'image' : 'images'}`;
+
+const describeBatch = (items: UploadQueueItem[]) => {
+  const uploaded = items.filter((item) => item.status === 'done').length;
+  const failed = items.filter((item) => item.status === 'failed');
+  const provider = getActiveStorageProvider().name;
+
+  if (failed.length === 0) {
+    return { title: 'Upload complete', message: `${plural(uploaded)} uploaded to ${provider}`, failed: false };
+  }
+  if (uploaded === 0 && failed.length === 1) {
+    return { title: 'Upload failed', message: `${failed[0].fileName}: ${failed[0].error ?? 'Unknown error'}`, failed: true };
+  }
+  return {
+    title: uploaded === 0 ? 'Uploads failed' : 'Some uploads failed',
+    message: `${failed.length} of ${plural(uploaded + failed.length)} could not be uploaded. Open the upload queue to retry.`,
+    failed: true,
+  };
+};
+
+// Reports each batch once the queue goes idle: a toast while the app is open, a local
+// notification while it's in the background. Both are turned off by the Push Notifications setting.
+export function useUploadNotifications() {
+  useEffect(() => {
+    const batch = new Set<string>();
+
+    return useUploadQueueStore.subscribe(({ items }) => {
+      items.forEach((item) => {
+        if (isActiveStatus(item.status)) batch.add(item.id);
+      });
+      if (batch.size === 0 || items.some((item) => isActiveStatus(item.status))) return;
+
+      // Cancelled uploads and ones parked in the outbox aren't results worth announcing
+      const finished = items.filter(
+        (item) => batch.has(item.id) && (item.status === 'done' || item.status === 'failed')
+      );
+      batch.clear();
+      if (finished.length === 0 || !useSettingsStore.getState().notifications) return;
+
+      const { title, message, failed } = describeBatch(finished);
+      if (AppState.currentState === 'active') {
+        showToast(title, message, failed ? 'error' : 'success');
+      } else {
+        sendLocalNotification(title, message);
+      }
+    });
+  }, []);
+}
@@ -0,0 +1,245 @@
+#!/usr/bin/env node
+// A small stand-in for the Cloudinary endpoints the app uses, so uploads can be exercised
+// offline. Files are kept in memory and lost when the server stops.
+//
+//   npm run mock:cloudinary
+//   EXPO_PUBLIC_CLOUDINARY_MOCK_URL=http://localhost:9200 npx expo start
+//
+// Implements unsigned (and chunked) uploads, delete_by_token, a signed-delete style
+// POST /destroy, tag lists and delivery of uploaded files (transformations are ignored).
+// Set MOCK_FAIL_RATE=0.3 to answer that share of uploads with a 503 and exercise retries.
+
+const http = require('http');
+const crypto = require('crypto');
+
+const PORT = Number(process.env.PORT) || 9200;
+const FAIL_RATE = Number(process.env.MOCK_FAIL_RATE) || 0;
+
+const assets = new Map(); // public_id -> asset
+const chunkedUploads = new Map(); // X-Unique-Upload-Id -> { chunks, received }
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, X-Unique-Upload-Id, Content-Range, X-Requested-With',
+};
+
+const send = (res, status, body, headers = {}) => {
+  const payload = Buffer.isBuffer(body) ? body : Buffer.from(JSON.stringify(body));
+  res.writeHead(status, {
+    ...CORS_HEADERS,
+    'Content-Type': Buffer.isBuffer(body) ? headers['Content-Type'] : 'application/json',
+    'Content-Length': payload.length,
+    ...headers,
+  });
+  res.end(payload);
+};
+
+const sendError = (res, status, message) => send(res, status, { error: { message } });
+
+const readBody = (req) =>
+  new Promise((resolve, reject) => {
+    const chunks = [];
+    req.on('data', (chunk) => chunks.push(chunk));
+    req.on('end', () => resolve(Buffer.concat(chunks)));
+    req.on('error', reject);
+  });
+
+// Minimal multipart/form-data parser: returns text fields and the first file part
+const parseMultipart = (body, contentType) => {
+  const match = /boundary=(?:"([^"]+)"|([^;]+))/i.exec(contentType || '');
+  if (!match) return null;
+  const boundary = Buffer.from(`--${match[1] || match[2]}`);
+  const fields = {};
+  let file = null;
+
+  let start = body.indexOf(boundary);
+  while (start !== -1) {
+    const next = body.indexOf(boundary, start + boundary.length);
+    if (next === -1) break;
+    const part = body.subarray(start + boundary.length + 2, next - 2); // skip CRLFs
+    const headerEnd = part.indexOf('\r\n\r\n');
+    if (headerEnd !== -1) {
+      const headers = part.subarray(0, headerEnd).toString();
+      const content = part.subarray(headerEnd + 4);
+      const name = /name="([^"]*)"/i.exec(headers)?.[1];
+      const fileName = /filename="([^"]*)"/i.exec(headers)?.[1];
+      if (fileName !== undefined) {
+        file = { fileName, data: content, contentType: /content-type:\s*(\S+)/i.exec(headers)?.[1] };
+      } else if (name) {
+        fields[name] = content.toString();
+      }
+    }
+    start = next;
+  }
+  return { fields, file };
+};
+
+const parseFields = (body, contentType) => {
+  if (/application\/json/i.test(contentType || '')) {
+    try {
+      return JSON.parse(body.toString() || '{}');
+    } catch {
+      return {};
+    }
+  }
+  if (/multipart\/form-data/i.test(contentType || '')) {
+    return parseMultipart(body, contentType)?.fields ?? {};
+  }
+  return Object.fromEntries(new URLSearchParams(body.toString()));
+};
+
+// Reads width and height from PNG, GIF and JPEG headers
+const getDimensions = (data) => {
+  if (data.length > 24 && data.readUInt32BE(0) === 0x89504e47) {
+    return { format: 'png', width: data.readUInt32BE(16), height: data.readUInt32BE(20) };
+  }
+  if (data.length > 10 && data.subarray(0, 3).toString() === 'GIF') {
+    return { format: 'gif', width: data.readUInt16LE(6), height: data.readUInt16LE(8) };
+  }
+  if (data.length > 4 && data[0] === 0xff && data[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < data.length) {
+      if (data[offset] !== 0xff) break;
+      const marker = data[offset + 1];
+      const length = data.readUInt16BE(offset + 2);
+      if (marker >= 0xc0 && marker <= 0xcf && ![0xc4, 0xc8, 0xcc].includes(marker)) {
+        return { format: 'jpg', height: data.readUInt16BE(offset + 5), width: data.readUInt16BE(offset + 7) };
+      }
+      offset += 2 + length;
+    }
+    return { format: 'jpg', width: 0, height: 0 };
+  }
+  if (data.length > 12 && data.subarray(8, 12).toString() === 'WEBP') {
+    return { format: 'webp', width: 0, height: 0 };
+  }
+  return { format: 'bin', width: 0, height: 0 };
+};
+
+const CONTENT_TYPES = { png: 'image/png', gif: 'image/gif', jpg: 'image/jpeg', webp: 'image/webp' };
+
+const toResource = (asset, host, cloudName) => ({
+  public_id: asset.publicId,
+  version: asset.version,
+  format: asset.format,
+  width: asset.width,
+  height: asset.height,
+  bytes: asset.data.length,
+  tags: asset.tags,
+  created_at: asset.createdAt,
+  secure_url: `http://${host}/res/${cloudName}/image/upload/v${asset.version}/${asset.publicId}.${asset.format}`,
+});
+
+const handleUpload = async (req, res, cloudName) => {
+  if (FAIL_RATE > 0 && Math.random() < FAIL_RATE) {
+    return sendError(res, 503, 'Injected failure (MOCK_FAIL_RATE)');
+  }
+
+  const parsed = parseMultipart(await readBody(req), req.headers['content-type']);
+  if (!parsed?.file) return sendError(res, 400, 'Missing required parameter - file');
+  const { fields } = parsed;
+  if (!fields.upload_preset) return sendError(res, 400, 'Upload preset must be specified when using unsigned upload');
+
+  let data = parsed.file.data;
+  const uploadId = req.headers['x-unique-upload-id'];
+  const range = /bytes (\d+)-(\d+)\/(\d+)/.exec(req.headers['content-range'] || '');
+  if (uploadId && range) {
+    const [, start, end, total] = range.map(Number);
+    const upload = chunkedUploads.get(uploadId) ?? { chunks: new Map(), received: 0 };
+    if (!upload.chunks.has(start)) upload.received += end - start + 1;
+    upload.chunks.set(start, data);
+    chunkedUploads.set(uploadId, upload);
+    if (upload.received < total) {
+      return send(res, 200, { done: false, bytes: upload.received });
+    }
+    data = Buffer.concat([...upload.chunks.entries()].sort(([a], [b]) => a - b).map(([, chunk]) => chunk));
+    chunkedUploads.delete(uploadId);
+  }
+
+  const baseName = fields.public_id || crypto.randomBytes(10).toString('hex');
+  const publicId = fields.folder ? `${fields.folder}/${baseName}` : baseName;
+  const asset = {
+    publicId,
+    data,
+    ...getDimensions(data),
+    version: Math.floor(Date.now() / 1000),
+    tags: (fields.tags || '').split(',').map((tag) => tag.trim()).filter(Boolean),
+    createdAt: new Date().toISOString(),
+    deleteToken: fields.return_delete_token === 'true' ? crypto.randomBytes(16).toString('hex') : undefined,
+  };
+  assets.set(publicId, asset);
+  console.log(`upload  ${publicId} (${data.length} bytes)`);
+
+  send(res, 200, { ...toResource(asset, req.headers.host, cloudName), delete_token: asset.deleteToken });
+};
+
+const handleDeleteByToken = async (req, res) => {
+  const { token } = parseFields(await readBody(req), req.headers['content-type']);
+  const asset = [...assets.values()].find((candidate) => token && candidate.deleteToken === token);
+  if (!asset) return sendError(res, 400, 'Invalid token');
+  assets.delete(asset.publicId);
+  console.log(`delete  ${asset.publicId}`);
+  send(res, 200, { result: 'ok' });
+};
+
+// Mirrors what a signing server in front of Cloudinary's destroy API would return
+const handleDestroy = async (req, res) => {
+  const { public_id: publicId } = parseFields(await readBody(req), req.headers['content-type']);
+  const found = assets.delete(publicId);
+  if (found) console.log(`destroy ${publicId}`);
+  send(res, 200, { result: found ? 'ok' : 'not found' });
+};
+
+const handleList = (req, res, cloudName, tag) => {
+  const resources = [...assets.values()]
+    .filter((asset) => asset.tags.includes(tag))
+    .map((asset) => toResource(asset, req.headers.host, cloudName));
+  if (resources.length === 0) return sendError(res, 404, 'Resource not found');
+  send(res, 200, { resources });
+};
+
+// Accepts /v123/folder/id.jpg as well as transformed paths like /w_200,c_fill/folder/id
+const handleDelivery = (req, res, path) => {
+  const segments = path.split('/').filter(Boolean);
+  while (segments.length > 1 && (/^v\d+$/.test(segments[0]) || /^(w|h|c|q|f|g|e|ar|dpr|x|y|r|fl)_/.test(segments[0]))) {
+    segments.shift();
+  }
+  const publicId = segments.join('/').replace(/\.[a-z0-9]+$/i, '');
+  const asset = assets.get(publicId);
+  if (!asset) return sendError(res, 404, 'Resource not found');
+  send(res, 200, asset.data, { 'Content-Type': CONTENT_TYPES[asset.format] || 'application/octet-stream' });
+};
+
+const server = http.createServer(async (req, res) => {
+  try {
+    if (req.method === 'OPTIONS') return send(res, 204, Buffer.alloc(0));
+
+    const { pathname } = new URL(req.url, `http://${req.headers.host}`);
+    let match;
+
+    if (req.method === 'POST' && (match = /^\/v1_1\/([^/]+)\/image\/upload$/.exec(pathname))) {
+      return await handleUpload(req, res, match[1]);
+    }
+    if (req.method === 'POST' && /^\/v1_1\/[^/]+\/delete_by_token$/.test(pathname)) {
+      return await handleDeleteByToken(req, res);
+    }
+    if (req.method === 'POST' && pathname === '/destroy') {
+      return await handleDestroy(req, res);
+    }
+    if (req.method === 'GET' && (match = /^\/res\/([^/]+)\/image\/list\/([^/]+)\.json$/.exec(pathname))) {
+      return handleList(req, res, match[1], decodeURIComponent(match[2]));
+    }
+    if (req.method === 'GET' && (match = /^\/res\/[^/]+\/image\/upload\/(.+)$/.exec(pathname))) {
+      return handleDelivery(req, res, decodeURIComponent(match[1]));
+    }
+    sendError(res, 404, `No mock for ${req.method} ${pathname}`);
+  } catch (error) {
+    console.error(error);
+    sendError(res, 500, error.message);
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`Cloudinary mock listening on http://localhost:${PORT}`);
+  console.log(`Delete endpoint for signed deletes: http://localhost:${PORT}/destroy`);
+});
@@ -0,0 +1,381 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { File, type FileHandle } from 'expo-file-system/next';
+import * as Sharing from 'expo-sharing';
+import { Zip, ZipDeflate, ZipPassThrough, strToU8, strFromU8, inflateSync } from 'fflate';
+import type { LibraryImage } from '@/stores/imageLibrary';
+import type { Album } from '@/stores/albums';
+import { decodeBase64, encodeBase64 } from './validation';
+
+// Exports are written here on native before being handed to the share sheet, so they can be
+// saved to Files or sent elsewhere; unlike the cache, the document directory isn't purged.
+export const EXPORTS_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}exports/`
+  : null;
+
+const ARCHIVE_FORMAT = 'image-upload-portal-export';
+const ARCHIVE_VERSION = 1;
+const MANIFEST_FILE = 'manifest.json';
+
+// Library records as stored in the archive. Delete tokens expire and owners are re-assigned on
+// import, so neither is exported; `file` is the image's path inside the archive, or null when
+// the original could not be fetched.
+export type ArchivedImage = Omit<LibraryImage, 'deleteToken' | 'ownerId'> & { file: string | null };
+
+export interface ArchiveManifest {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: string;
+  albums: Album[];
+  images: ArchivedImage[];
+}
+
+export interface ArchiveProgress {
+  completed: number;
+  total: number;
+}
+
+export interface ExportResult {
+  fileName: string;
+  bytes: number;
+  exported: number;
+  // Names of images whose originals could not be fetched; their records are still in the manifest
+  skipped: string[];
+}
+
+export interface ArchiveContents {
+  manifest: ArchiveManifest;
+  // Reads one file from the archive by its path, or null when it isn't there
+  readFile: (path: string) => Promise<Uint8Array | null>;
+}
+
+// Fetches the original from its provider; local images are read straight from disk
+const readImageBytes = async (image: LibraryImage): Promise<Uint8Array> => {
+  if (Platform.OS === 'web' || image.url.startsWith('data:')) {
+    const response = await fetch(image.url);
+    if (!response.ok) {
+      throw new Error(`HTTP ${response.status}`);
+    }
+    return new Uint8Array(await response.arrayBuffer());
+  }
+
+  if (image.url.startsWith('file:')) {
+    return decodeBase64(await FileSystem.readAsStringAsync(image.url, { encoding: FileSystem.EncodingType.Base64 }));
+  }
+
+  const target = `${FileSystem.cacheDirectory}export_${Date.now()}`;
+  try {
+    const result = await FileSystem.downloadAsync(image.url, target);
+    if (result.status >= 400) {
+      throw new Error(`HTTP ${result.status}`);
+    }
+    return decodeBase64(await FileSystem.readAsStringAsync(target, { encoding: FileSystem.EncodingType.Base64 }));
+  } finally {
+    await FileSystem.deleteAsync(target, { idempotent: true });
+  }
+};
+
+const sanitizeFileName = (name: string) => name.replace(/[\\/:*?"<>|]+/g, '_') || 'image';
+
+// images/<album>/<name>, with a counter added when two images share a name
+const createPathAllocator = () => {
+  const used = new Set<string>();
+  return (image: LibraryImage) => {
+    const folder = image.album ? `images/${image.album}/` : 'images/';
+    const name = sanitizeFileName(image.name);
+    const dot = name.lastIndexOf('.');
+    let path = `${folder}${name}`;
+    for (let copy = 2; used.has(path); copy++) {
+      path = dot > 0 ? `${folder}${name.slice(0, dot)}_${copy}${name.slice(dot)}` : `${folder}${name}_${copy}`;
+    }
+    used.add(path);
+    return path;
+  };
+};
+
+const CSV_COLUMNS = [
+  'file', 'name', 'album', 'tags', 'provider', 'publicId', 'url', 'bytes',
+  'width', 'height', 'format', 'uploadedAt', 'takenAt', 'camera',
+] as const;
+
+const toCsvField = (value: string | number | undefined | null) => {
+  const text = value === undefined || value === null ? '' : String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// A spreadsheet-friendly copy of the manifest; the JSON file is what imports read
+export const toManifestCsv = (manifest: ArchiveManifest) => {
+  const albumNames = new Map(manifest.albums.map((album) => [album.id, album.name]));
+  const rows = manifest.images.map((image) => {
+    const values: Record<(typeof CSV_COLUMNS)[number], string | number | undefined | null> = {
+      file: image.file,
+      name: image.name,
+      album: image.album ? albumNames.get(image.album) ?? image.album : '',
+      tags: image.tags?.join(' '),
+      provider: image.provider,
+      publicId: image.publicId,
+      url: image.url,
+      bytes: image.bytes,
+      width: image.width,
+      height: image.height,
+      format: image.format,
+      uploadedAt: image.uploadedAt,
+      takenAt: image.exif?.takenAt,
+      camera: [image.exif?.make, image.exif?.model].filter(Boolean).join(' '),
+    };
+    return CSV_COLUMNS.map((column) => toCsvField(values[column])).join(',');
+  });
+  return [CSV_COLUMNS.join(','), ...rows].join('\n');
+};
+
+// Opens the native export file for writing, replacing an earlier export from the same day
+const openExportFile = async (fileName: string) => {
+  const info = await FileSystem.getInfoAsync(EXPORTS_DIRECTORY!);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(EXPORTS_DIRECTORY!, { intermediates: true });
+  }
+  const file = new File(`${EXPORTS_DIRECTORY}${fileName}`);
+  if (file.exists) file.delete();
+  file.create();
+  return { file, handle: file.open() };
+};
+
+// Builds the archive one image at a time: each original is fetched, stored without
+// recompression and released before the next, and progress is reported after every image.
+// On native the ZIP is written to the export file as it is produced, so it is never held in
+// memory; the web has no file system and collects the chunks into a Blob.
+export const exportLibrary = async (
+  images: LibraryImage[],
+  albums: Album[],
+  options: { onProgress?: (progress: ArchiveProgress) => void; signal?: AbortSignal } = {}
+): Promise<ExportResult> => {
+  const exportedAt = new Date().toISOString();
+  const fileName = `image-library-${exportedAt.slice(0, 10)}.zip`;
+  const output: { file: File; handle: FileHandle } | null = Platform.OS === 'web' ? null : await openExportFile(fileName);
+  const chunks: Uint8Array[] = [];
+  let bytes = 0;
+
+  let finish: (error: Error | null) => void = () => {};
+  const finished = new Promise<void>((resolve, reject) => {
+    finish = (error) => (error ? reject(error) : resolve());
+  });
+  const zip = new Zip((error, chunk, final) => {
+    if (error) {
+      finish(error);
+      return;
+    }
+    try {
+      if (output) {
+        output.handle.writeBytes(chunk);
+      } else {
+        chunks.push(chunk);
+      }
+      bytes += chunk.length;
+    } catch (writeError) {
+      finish(writeError instanceof Error ? writeError : new Error('Failed to write the export'));
+      return;
+    }
+    if (final) finish(null);
+  });
+
+  const addFile = (path: string, data: Uint8Array, compress: boolean) => {
+    const entry = compress ? new ZipDeflate(path, { level: 6 }) : new ZipPassThrough(path);
+    zip.add(entry);
+    entry.push(data, true);
+  };
+
+  const allocatePath = createPathAllocator();
+  const archived: ArchivedImage[] = [];
+  const skipped: string[] = [];
+  options.onProgress?.({ completed: 0, total: images.length });
+
+  try {
+    for (const [index, image] of images.entries()) {
+      options.signal?.throwIfAborted();
+      const { deleteToken: _deleteToken, ownerId: _ownerId, ...record } = image;
+      try {
+        const path = allocatePath(image);
+        // Images are already compressed, so deflating them again only costs time
+        addFile(path, await readImageBytes(image), false);
+        archived.push({ ...record, file: path });
+      } catch (error) {
+        console.error(`Export error for ${image.name}:`, error);
+        archived.push({ ...record, file: null });
+        skipped.push(image.name);
+      }
+      options.onProgress?.({ completed: index + 1, total: images.length });
+    }
+
+    const manifest: ArchiveManifest = {
+      format: ARCHIVE_FORMAT,
+      version: ARCHIVE_VERSION,
+      exportedAt,
+      albums,
+      images: archived,
+    };
+    addFile(MANIFEST_FILE, strToU8(JSON.stringify(manifest, null, 2)), true);
+    addFile('manifest.csv', strToU8(toManifestCsv(manifest)), true);
+    zip.end();
+    await finished;
+  } catch (error) {
+    zip.terminate();
+    if (output) {
+      output.handle.close();
+      output.file.delete();
+    }
+    throw error;
+  }
+
+  if (output) {
+    output.handle.close();
+    if (await Sharing.isAvailableAsync()) {
+      await Sharing.shareAsync(output.file.uri, { mimeType: 'application/zip', dialogTitle: fileName, UTI: 'public.zip-archive' });
+    }
+  } else {
+    const objectUrl = URL.createObjectURL(new Blob(chunks, { type: 'application/zip' }));
+    const link = document.createElement('a');
+    link.href = objectUrl;
+    link.download = fileName;
+    document.body.appendChild(link);
+    link.click();
+    link.remove();
+    URL.revokeObjectURL(objectUrl);
+  }
+
+  return { fileName, bytes, exported: images.length - skipped.length, skipped };
+};
+
+// Random access to the picked archive, so only the parts being read are held in memory
+interface ArchiveSource {
+  size: number;
+  read: (start: number, length: number) => Promise<Uint8Array>;
+}
+
+// Where a file's data sits in the archive, from its central directory record
+interface ArchiveEntry {
+  compression: number;
+  compressedSize: number;
+  size: number;
+  offset: number;
+}
+
+const END_OF_DIRECTORY_SIGNATURE = 0x06054b50;
+const DIRECTORY_ENTRY_SIGNATURE = 0x02014b50;
+const END_OF_DIRECTORY_SIZE = 22;
+const DIRECTORY_ENTRY_SIZE = 46;
+const LOCAL_HEADER_SIZE = 30;
+const MAX_COMMENT_SIZE = 0xffff;
+
+const viewOf = (bytes: Uint8Array) => new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+const openArchiveSource = async (uri: string): Promise<ArchiveSource> => {
+  if (Platform.OS === 'web' || uri.startsWith('data:')) {
+    const blob = await (await fetch(uri)).blob();
+    return {
+      size: blob.size,
+      read: async (start, length) => new Uint8Array(await blob.slice(start, start + length).arrayBuffer()),
+    };
+  }
+
+  const file = new File(uri);
+  return {
+    size: file.size ?? 0,
+    read: async (start, length) => {
+      const handle = file.open();
+      try {
+        handle.offset = start;
+        return handle.readBytes(length);
+      } finally {
+        handle.close();
+      }
+    },
+  };
+};
+
+// Lists the archive's files from the central directory at its end, without reading their data
+const readArchiveEntries = async (source: ArchiveSource) => {
+  const tailLength = Math.min(source.size, END_OF_DIRECTORY_SIZE + MAX_COMMENT_SIZE);
+  const tail = await source.read(source.size - tailLength, tailLength);
+  const tailView = viewOf(tail);
+  let end = tail.length - END_OF_DIRECTORY_SIZE;
+  while (end >= 0 && tailView.getUint32(end, true) !== END_OF_DIRECTORY_SIGNATURE) end--;
+  if (end < 0) {
+    throw new Error('End of central directory not found');
+  }
+
+  const count = tailView.getUint16(end + 10, true);
+  const directory = await source.read(tailView.getUint32(end + 16, true), tailView.getUint32(end + 12, true));
+  const view = viewOf(directory);
+  const entries = new Map<string, ArchiveEntry>();
+  let position = 0;
+  for (let index = 0; index < count; index++) {
+    if (position + DIRECTORY_ENTRY_SIZE > directory.length || view.getUint32(position, true) !== DIRECTORY_ENTRY_SIGNATURE) {
+      throw new Error('Malformed central directory');
+    }
+    const nameLength = view.getUint16(position + 28, true);
+    const nameStart = position + DIRECTORY_ENTRY_SIZE;
+    // Bit 11 marks UTF-8 names; older archivers used Latin-1
+    const name = strFromU8(directory.subarray(nameStart, nameStart + nameLength), !(view.getUint16(position + 8, true) & 0x800));
+    entries.set(name, {
+      compression: view.getUint16(position + 10, true),
+      compressedSize: view.getUint32(position + 20, true),
+      size: view.getUint32(position + 24, true),
+      offset: view.getUint32(position + 42, true),
+    });
+    position = nameStart + nameLength + view.getUint16(position + 30, true) + view.getUint16(position + 32, true);
+  }
+  return entries;
+};
+
+const readArchiveEntry = async (source: ArchiveSource, entry: ArchiveEntry) => {
+  const header = viewOf(await source.read(entry.offset, LOCAL_HEADER_SIZE));
+  const start = entry.offset + LOCAL_HEADER_SIZE + header.getUint16(26, true) + header.getUint16(28, true);
+  const data = await source.read(start, entry.compressedSize);
+  if (entry.compression === 0) return data;
+  if (entry.compression === 8) return inflateSync(data, { out: new Uint8Array(entry.size) });
+  throw new Error(`Unsupported compression method ${entry.compression}`);
+};
+
+// Reads only the manifest; images are extracted one at a time through `readFile` when they are
+// needed, so a library-sized archive is never held in memory
+export const readArchive = async (uri: string): Promise<ArchiveContents> => {
+  const source = await openArchiveSource(uri);
+
+  let entries: Map<string, ArchiveEntry>;
+  try {
+    entries = await readArchiveEntries(source);
+  } catch (error) {
+    console.error('Archive read error:', error);
+    throw new Error('The file is not a valid ZIP archive');
+  }
+
+  const manifestEntry = entries.get(MANIFEST_FILE);
+  const manifest = manifestEntry
+    ? (JSON.parse(strFromU8(await readArchiveEntry(source, manifestEntry))) as ArchiveManifest)
+    : null;
+  if (!manifest || manifest.format !== ARCHIVE_FORMAT || !Array.isArray(manifest.images)) {
+    throw new Error('This archive was not exported from Image Upload Portal');
+  }
+  if (manifest.version > ARCHIVE_VERSION) {
+    throw new Error('This archive was created by a newer version of the app');
+  }
+
+  return {
+    manifest,
+    readFile: async (path) => {
+      const entry = entries.get(path);
+      return entry ? readArchiveEntry(source, entry) : null;
+    },
+  };
+};
+
+// Writes an archived image out so the upload queue can read it: a cache file on native,
+// a blob URL on web
+export const extractArchivedImage = async (image: ArchivedImage, data: Uint8Array): Promise<string> => {
+  if (Platform.OS === 'web') {
+    return URL.createObjectURL(new Blob([data]));
+  }
+  const uri = `${FileSystem.cacheDirectory}import_${Date.now()}_${sanitizeFileName(image.name)}`;
+  await FileSystem.writeAsStringAsync(uri, encodeBase64(data), { encoding: FileSystem.EncodingType.Base64 });
+  return uri;
+};
@@ -0,0 +1,110 @@
+import { Platform } from 'react-native';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  Auth,
+  AuthError,
+  EmailAuthProvider,
+  User,
+  connectAuthEmulator,
+  createUserWithEmailAndPassword,
+  getAuth,
+  initializeAuth,
+  linkWithCredential,
+  onAuthStateChanged,
+  signInAnonymously,
+  signInWithEmailAndPassword,
+  signOut as firebaseSignOut,
+  getReactNativePersistence,
+} from 'firebase/auth';
+import { firebaseApp } from './firebaseApp';
+import { config } from './config';
+
+// Sessions survive restarts: IndexedDB on web, AsyncStorage on native
+export const auth: Auth = Platform.OS === 'web'
+  ? getAuth(firebaseApp)
+  : initializeAuth(firebaseApp, { persistence: getReactNativePersistence(AsyncStorage) });
+
+// e.g. localhost:9099 (use 10.0.2.2 from the Android emulator)
+if (config.emulators.authHost) {
+  connectAuthEmulator(auth, `http://${config.emulators.authHost}`, { disableWarnings: true });
+}
+
+export interface AuthUser {
+  uid: string;
+  email: string | null;
+  isAnonymous: boolean;
+  createdAt?: string;
+  lastSignInAt?: string;
+}
+
+export const toAuthUser = (user: User): AuthUser => ({
+  uid: user.uid,
+  email: user.email,
+  isAnonymous: user.isAnonymous,
+  createdAt: user.metadata.creationTime,
+  lastSignInAt: user.metadata.lastSignInTime,
+});
+
+export const getCurrentUserId = (): string | null => auth.currentUser?.uid ?? null;
+
+export const subscribeToAuthChanges = (listener: (user: AuthUser | null) => void) =>
+  onAuthStateChanged(auth, (user) => listener(user ? toAuthUser(user) : null));
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-email': 'That email address is not valid',
+  'auth/invalid-credential': 'Incorrect email or password',
+  'auth/wrong-password': 'Incorrect email or password',
+  'auth/user-not-found': 'Incorrect email or password',
+  'auth/user-disabled': 'This account has been disabled',
+  'auth/email-already-in-use': 'An account already exists for that email',
+  'auth/credential-already-in-use': 'An account already exists for that email',
+  'auth/weak-password': 'Passwords need at least 6 characters',
+  'auth/too-many-requests': 'Too many attempts. Try again later',
+  'auth/network-request-failed': 'No connection. Check your network and try again',
+  'auth/operation-not-allowed': 'This sign-in method is not enabled for the project',
+};
+
+const toAuthError = (error: unknown, fallback: string) => {
+  console.error('Auth error:', error);
+  const code = (error as AuthError | undefined)?.code;
+  return new Error((code && AUTH_ERROR_MESSAGES[code]) ?? fallback);
+};
+
+export const signInWithEmail = async (email: string, password: string): Promise<AuthUser> => {
+  try {
+    const { user } = await signInWithEmailAndPassword(auth, email.trim(), password);
+    return toAuthUser(user);
+  } catch (error) {
+    throw toAuthError(error, 'Failed to sign in');
+  }
+};
+
+// A guest upgrading to an account keeps its uid, and with it everything already uploaded
+export const createAccount = async (email: string, password: string): Promise<AuthUser> => {
+  try {
+    const current = auth.currentUser;
+    const { user } = current?.isAnonymous
+      ? await linkWithCredential(current, EmailAuthProvider.credential(email.trim(), password))
+      : await createUserWithEmailAndPassword(auth, email.trim(), password);
+    return toAuthUser(user);
+  } catch (error) {
+    throw toAuthError(error, 'Failed to create account');
+  }
+};
+
+export const signInAsGuest = async (): Promise<AuthUser> => {
+  try {
+    const { user } = await signInAnonymously(auth);
+    return toAuthUser(user);
+  } catch (error) {
+    throw toAuthError(error, 'Failed to continue as guest');
+  }
+};
+
+export const signOut = async (): Promise<void> => {
+  try {
+    await firebaseSignOut(auth);
+  } catch (error) {
+    throw toAuthError(error, 'Failed to sign out');
+  }
+};
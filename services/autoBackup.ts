@@ -0,0 +1,115 @@
+import { Platform } from 'react-native';
+import * as MediaLibrary from 'expo-media-library';
+import * as Network from 'expo-network';
+import * as Battery from 'expo-battery';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { isHeifFileName, renameForFormat } from './compression';
+
+export type BackupBlocker = 'provider' | 'signin' | 'permission' | 'offline' | 'wifi' | 'charging';
+
+export interface BackupConstraints {
+  wifiOnly: boolean;
+  chargingOnly: boolean;
+}
+
+export interface LibraryPhoto {
+  assetId: string;
+  uri: string;
+  fileName: string;
+  width: number;
+  height: number;
+  createdAt: number;
+}
+
+export const BACKUP_BLOCKER_LABELS: Record<BackupBlocker, string> = {
+  provider: 'The storage provider is not configured',
+  signin: 'Sign in to upload to Firebase',
+  permission: 'Photo library access is needed',
+  offline: 'Waiting for a connection',
+  wifi: 'Waiting for Wi-Fi',
+  charging: 'Waiting for the device to charge',
+};
+
+const PAGE_SIZE = 50;
+
+// Backup reads the device's photo library, which browsers don't expose
+export const isAutoBackupSupported = () => Platform.OS !== 'web';
+
+export const requestLibraryPermission = async (): Promise<boolean> => {
+  const current = await MediaLibrary.getPermissionsAsync(false, ['photo']);
+  if (current.granted) return true;
+  if (!current.canAskAgain) return false;
+  return (await MediaLibrary.requestPermissionsAsync(false, ['photo'])).granted;
+};
+
+// The first condition that currently rules out a backup, or null when it can run
+export const getBackupBlocker = async ({ wifiOnly, chargingOnly }: BackupConstraints): Promise<BackupBlocker | null> => {
+  const permission = await MediaLibrary.getPermissionsAsync(false, ['photo']);
+  if (!permission.granted) return 'permission';
+
+  try {
+    const network = await Network.getNetworkStateAsync();
+    if (network.isConnected === false || network.isInternetReachable === false) return 'offline';
+    if (wifiOnly && network.type !== Network.NetworkStateType.WIFI && network.type !== Network.NetworkStateType.ETHERNET) {
+      return 'wifi';
+    }
+  } catch (error) {
+    console.error('Network state error:', error);
+  }
+
+  if (chargingOnly) {
+    try {
+      const state = await Battery.getBatteryStateAsync();
+      if (state !== Battery.BatteryState.CHARGING && state !== Battery.BatteryState.FULL) return 'charging';
+    } catch (error) {
+      console.error('Battery state error:', error);
+    }
+  }
+  return null;
+};
+
+// Photos added to the library after `since`, oldest first so the sync cursor can advance as
+// each page is handled
+export const findNewPhotos = async (since: number): Promise<LibraryPhoto[]> => {
+  try {
+    const photos: LibraryPhoto[] = [];
+    let after: string | undefined;
+    for (;;) {
+      const page = await MediaLibrary.getAssetsAsync({
+        mediaType: MediaLibrary.MediaType.photo,
+        sortBy: [[MediaLibrary.SortBy.creationTime, true]],
+        createdAfter: since,
+        first: PAGE_SIZE,
+        after,
+      });
+      for (const asset of page.assets) {
+        // iOS returns ph:// references; the info call resolves a file the upload pipeline can read
+        const info = Platform.OS === 'ios' ? await MediaLibrary.getAssetInfoAsync(asset) : null;
+        photos.push({
+          assetId: asset.id,
+          uri: info?.localUri ?? asset.uri,
+          fileName: asset.filename,
+          width: asset.width,
+          height: asset.height,
+          createdAt: asset.creationTime,
+        });
+      }
+      if (!page.hasNextPage) break;
+      after = page.endCursor;
+    }
+    return photos;
+  } catch (error) {
+    console.error('Photo library error:', error);
+    throw new Error('Failed to read new photos from your library');
+  }
+};
+
+// iPhones store photos as HEIC, which the providers don't accept, so those are re-encoded as
+// JPEG first; other photos are uploaded from the library file as they are
+export const prepareLibraryPhoto = async (photo: LibraryPhoto): Promise<LibraryPhoto> => {
+  if (!isHeifFileName(photo.fileName)) return photo;
+
+  const image = await ImageManipulator.manipulate(photo.uri).renderAsync();
+  const result = await image.saveAsync({ compress: 0.9, format: SaveFormat.JPEG });
+  return { ...photo, uri: result.uri, fileName: renameForFormat(photo.fileName, 'jpeg') };
+};
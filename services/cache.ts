@@ -0,0 +1,213 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { Image } from 'expo-image';
+import { DOWNLOADS_DIRECTORY } from './download';
+import { OUTBOX_DIRECTORY } from './outbox';
+
+export type CacheCategory = 'images' | 'thumbnails' | 'picked' | 'downloads' | 'outbox';
+
+export type ClearCacheScope = 'thumbnails' | 'failed' | 'everything';
+
+export const CACHE_CATEGORY_LABELS: Record<CacheCategory, string> = {
+  images: 'Image cache',
+  thumbnails: 'Thumbnails & edits',
+  picked: 'Picked photos',
+  downloads: 'Downloads',
+  outbox: 'Pending uploads',
+};
+
+export const MB = 1024 * 1024;
+export const CACHE_LIMIT_OPTIONS = [100 * MB, 250 * MB, 500 * MB, 1024 * MB];
+export const DEFAULT_CACHE_LIMIT = 250 * MB;
+
+export interface CacheUsage {
+  total: number;
+  byCategory: Record<CacheCategory, number>;
+}
+
+interface CachedFile {
+  uri: string;
+  size: number;
+  // Milliseconds, like the access times passed to enforceCacheLimit
+  modifiedAt: number;
+  category: CacheCategory;
+}
+
+const CACHE_ROOT = FileSystem.cacheDirectory ?? '';
+
+// expo-image keeps downloaded images in SDWebImage's cache on iOS and Glide's on Android
+const IMAGE_CACHE_DIRECTORY = Platform.select({
+  ios: `${CACHE_ROOT}com.hackemist.SDImageCache/`,
+  android: `${CACHE_ROOT}image_manager_disk_cache/`,
+});
+
+const DIRECTORIES: Partial<Record<CacheCategory, string | null | undefined>> = {
+  images: IMAGE_CACHE_DIRECTORY,
+  // Compressed, edited, oriented and thumbnail copies written by expo-image-manipulator
+  thumbnails: `${CACHE_ROOT}ImageManipulator/`,
+  // Copies expo-image-picker makes of selected and captured photos
+  picked: `${CACHE_ROOT}ImagePicker/`,
+  downloads: DOWNLOADS_DIRECTORY,
+  outbox: OUTBOX_DIRECTORY,
+};
+
+// Loose files this app writes to the cache root: metadata-stripped copies, upload chunks and
+// import/export staging
+const ROOT_FILE_PREFIXES = ['stripped_', 'chunk_', 'import_', 'export_'];
+
+// Pending uploads are user data rather than cache, and expo-image's cache is only cleared through
+// its own API, so the size limit evicts files one by one from the remaining categories
+const EVICTABLE: CacheCategory[] = ['thumbnails', 'picked', 'downloads'];
+
+// Glide's journal describes the entries on disk; removing it would drop the whole cache
+const isBookkeepingFile = (name: string) => name.startsWith('journal');
+
+export const isCacheSupported = () => Platform.OS !== 'web' && CACHE_ROOT !== '';
+
+export const isCachedFile = (uri: string) => isCacheSupported() && uri.startsWith(CACHE_ROOT);
+
+const listDirectory = async (directory: string, category: CacheCategory): Promise<CachedFile[]> => {
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists || !info.isDirectory) return [];
+
+  const names = await FileSystem.readDirectoryAsync(directory);
+  const entries = await Promise.all(
+    names.filter((name) => !isBookkeepingFile(name)).map(async (name): Promise<CachedFile[]> => {
+      const uri = `${directory}${name}`;
+      const entry = await FileSystem.getInfoAsync(uri);
+      if (!entry.exists) return [];
+      if (entry.isDirectory) return listDirectory(`${uri}/`, category);
+      return [{ uri, size: entry.size, modifiedAt: entry.modificationTime * 1000, category }];
+    })
+  );
+  return entries.flat();
+};
+
+const listRootFiles = async (): Promise<CachedFile[]> => {
+  const names = await FileSystem.readDirectoryAsync(CACHE_ROOT);
+  const entries = await Promise.all(
+    names
+      .filter((name) => ROOT_FILE_PREFIXES.some((prefix) => name.startsWith(prefix)))
+      .map(async (name): Promise<CachedFile[]> => {
+        const uri = `${CACHE_ROOT}${name}`;
+        const entry = await FileSystem.getInfoAsync(uri);
+        return entry.exists && !entry.isDirectory
+          ? [{ uri, size: entry.size, modifiedAt: entry.modificationTime * 1000, category: 'thumbnails' }]
+          : [];
+      })
+  );
+  return entries.flat();
+};
+
+const listCachedFiles = async (categories: CacheCategory[]): Promise<CachedFile[]> => {
+  const lists = await Promise.all(
+    categories.map((category) => {
+      const directory = DIRECTORIES[category];
+      return directory ? listDirectory(directory, category) : [];
+    })
+  );
+  const rootFiles = categories.includes('thumbnails') ? await listRootFiles() : [];
+  return [...lists.flat(), ...rootFiles];
+};
+
+const totalSize = (files: CachedFile[]) => files.reduce((sum, file) => sum + file.size, 0);
+
+const deleteFiles = async (files: CachedFile[]) => {
+  let freed = 0;
+  for (const file of files) {
+    try {
+      await FileSystem.deleteAsync(file.uri, { idempotent: true });
+      freed += file.size;
+    } catch (error) {
+      console.error('Cache delete error:', error);
+    }
+  }
+  return freed;
+};
+
+// Sizes per category; null on web, where the browser manages caching
+export const getCacheUsage = async (): Promise<CacheUsage | null> => {
+  if (!isCacheSupported()) return null;
+
+  try {
+    const files = await listCachedFiles(Object.keys(CACHE_CATEGORY_LABELS) as CacheCategory[]);
+    const byCategory = { images: 0, thumbnails: 0, picked: 0, downloads: 0, outbox: 0 };
+    files.forEach((file) => {
+      byCategory[file.category] += file.size;
+    });
+    return { total: totalSize(files), byCategory };
+  } catch (error) {
+    console.error('Cache usage error:', error);
+    throw new Error('Failed to read the cache size');
+  }
+};
+
+// Empties expo-image's memory and disk caches through its API and returns the disk bytes freed
+const clearImageCache = async () => {
+  const bytes = isCacheSupported() ? totalSize(await listCachedFiles(['images'])) : 0;
+  await Promise.all([Image.clearMemoryCache(), Image.clearDiskCache()]);
+  return bytes;
+};
+
+// Removes cached files for the given scope and returns the bytes freed. Files in `keep` (e.g.
+// the source of an upload still in the queue) are never deleted; `discard` lists extra files
+// to remove, such as those of failed uploads.
+export const clearCache = async (
+  scope: ClearCacheScope,
+  { keep = new Set<string>(), discard = [] }: { keep?: Set<string>; discard?: string[] } = {}
+): Promise<number> => {
+  try {
+    const imageBytes = scope === 'everything' ? await clearImageCache() : 0;
+    if (!isCacheSupported()) return imageBytes;
+
+    if (scope === 'failed') {
+      const files = await listCachedFiles(['thumbnails', 'picked', 'outbox']);
+      const targets = new Set(discard);
+      return await deleteFiles(files.filter((file) => targets.has(file.uri) && !keep.has(file.uri)));
+    }
+
+    const categories: CacheCategory[] = scope === 'thumbnails'
+      ? ['thumbnails']
+      : ['thumbnails', 'picked', 'downloads', 'outbox'];
+    const files = await listCachedFiles(categories);
+    return imageBytes + await deleteFiles(files.filter((file) => !keep.has(file.uri)));
+  } catch (error) {
+    console.error('Cache clear error:', error);
+    throw new Error('Failed to clear the cache');
+  }
+};
+
+// Deletes the least recently used files until the cache fits within the limit. `usedAt` holds
+// when files were last shown; a file never shown, or written since, counts from its last write.
+// expo-image's cache can only be cleared as a whole, so it is emptied last if that is still not enough.
+export const enforceCacheLimit = async (
+  maxBytes: number,
+  keep = new Set<string>(),
+  usedAt: Record<string, number> = {}
+): Promise<number> => {
+  if (!isCacheSupported()) return 0;
+
+  try {
+    const files = await listCachedFiles(EVICTABLE);
+    const imageBytes = totalSize(await listCachedFiles(['images']));
+    let total = totalSize(files) + imageBytes;
+    if (total <= maxBytes) return 0;
+
+    const lastUsed = (file: CachedFile) => Math.max(file.modifiedAt, usedAt[file.uri] ?? 0);
+    const victims: CachedFile[] = [];
+    for (const file of files.filter((candidate) => !keep.has(candidate.uri)).sort((a, b) => lastUsed(a) - lastUsed(b))) {
+      if (total <= maxBytes) break;
+      victims.push(file);
+      total -= file.size;
+    }
+    let freed = await deleteFiles(victims);
+    if (total > maxBytes && imageBytes > 0) {
+      await Image.clearDiskCache();
+      freed += imageBytes;
+    }
+    return freed;
+  } catch (error) {
+    console.error('Cache eviction error:', error);
+    return 0;
+  }
+};
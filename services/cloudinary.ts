@@ -1,11 +1,38 @@
-// Cloudinary configuration
-const CLOUDINARY_CLOUD_NAME = 'your-cloud-name'; // Replace with your Cloudinary cloud name
-const CLOUDINARY_UPLOAD_PRESET = 'your-upload-preset'; // Replace with your unsigned upload preset
-const CLOUDINARY_API_URL = `https://api.cloudinary.com/v1_1/${CLOUDINARY_CLOUD_NAME}/image/upload`;
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type { StorageProvider, UploadOptions, UploadResult, StoredObject, DeleteOptions } from './storage';
+import { UploadError, withRetry } from './retry';
+import { getCurrentUserId } from './auth';
+import { config } from './config';
+
+// Cloudinary configuration, from app.json `extra.cloudinary` or EXPO_PUBLIC_CLOUDINARY_* variables
+const CLOUDINARY_CLOUD_NAME = config.cloudinary.cloudName;
+const CLOUDINARY_UPLOAD_PRESET = config.cloudinary.uploadPreset; // Must be an unsigned upload preset
+// The mock server (npm run mock:cloudinary) mirrors both the API and the delivery host
+const CLOUDINARY_API_BASE = `${config.emulators.cloudinaryMockUrl ?? 'https://api.cloudinary.com'}/v1_1/${CLOUDINARY_CLOUD_NAME}`;
+const CLOUDINARY_DELIVERY_BASE = config.emulators.cloudinaryMockUrl
+  ? `${config.emulators.cloudinaryMockUrl}/res/${CLOUDINARY_CLOUD_NAME}`
+  : `https://res.cloudinary.com/${CLOUDINARY_CLOUD_NAME}`;
+const CLOUDINARY_API_URL = `${CLOUDINARY_API_BASE}/image/upload`;
+// Unsigned presets cannot destroy assets. Point this at a server route that signs and forwards
+// `destroy` calls ({ public_id } in, Cloudinary's response out) to enable deletes at any time.
+const CLOUDINARY_DELETE_ENDPOINT = config.cloudinary.deleteEndpoint;
+// Every upload is tagged so the library can be listed through the client-side resource list endpoint
+const CLOUDINARY_LIBRARY_TAG = 'image-upload-portal';
+// Signed-in uploads also carry a per-user tag, and the library is listed by the most specific tag
+const getLibraryTags = () => {
+  const uid = getCurrentUserId();
+  return uid ? [CLOUDINARY_LIBRARY_TAG, `user_${uid}`] : [CLOUDINARY_LIBRARY_TAG];
+};
+// Uploads go under this folder, with one sub-folder per album
+const CLOUDINARY_UPLOADS_FOLDER = 'uploads';
+// Files above this size are sent in chunks; Cloudinary requires every chunk but the last to be at least 5MB
+const CLOUDINARY_CHUNK_SIZE = 6 * 1024 * 1024;
 
 interface CloudinaryResponse {
   secure_url: string;
   public_id: string;
+  delete_token?: string;
   format: string;
   bytes: number;
   width: number;
@@ -13,61 +40,233 @@ interface CloudinaryResponse {
   created_at: string;
 }
 
+interface CloudinaryListResponse {
+  resources: {
+    public_id: string;
+    format: string;
+    version: number;
+    width: number;
+    height: number;
+    created_at: string;
+    tags?: string[];
+  }[];
+}
+
+interface RequestOptions {
+  headers?: Record<string, string>;
+  signal?: AbortSignal;
+  onProgress?: (loaded: number, total: number) => void;
+}
+
+// fetch() has no upload progress events, so uploads go through XMLHttpRequest instead
+const postFormData = <T>(url: string, body: FormData, { headers = {}, signal, onProgress }: RequestOptions): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    const abort = () => xhr.abort();
+
+    xhr.open('POST', url);
+    xhr.setRequestHeader('Accept', 'application/json');
+    Object.entries(headers).forEach(([name, value]) => xhr.setRequestHeader(name, value));
+
+    xhr.upload.onprogress = (event) => {
+      if (event.lengthComputable) {
+        onProgress?.(event.loaded, event.total);
+      }
+    };
+    xhr.onload = () => {
+      signal?.removeEventListener('abort', abort);
+      if (xhr.status >= 200 && xhr.status < 300) {
+        try {
+          resolve(JSON.parse(xhr.responseText));
+        } catch (error) {
+          console.error('Cloudinary response parse error:', error);
+          reject(new UploadError('Upload failed: unexpected response from Cloudinary', { status: xhr.status }));
+        }
+      } else {
+        console.error('Cloudinary upload failed:', xhr.responseText);
+        reject(new UploadError(`Upload failed: ${xhr.status} ${xhr.statusText}`, { status: xhr.status }));
+      }
+    };
+    xhr.onerror = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new UploadError('Network request failed', { network: true }));
+    };
+    xhr.onabort = () => {
+      signal?.removeEventListener('abort', abort);
+      reject(new UploadError('Upload cancelled', { cancelled: true }));
+    };
+
+    signal?.addEventListener('abort', abort);
+    xhr.send(body);
+  });
+
+const createFormData = (params: Record<string, string>) => {
+  const formData = new FormData();
+  Object.entries(params).forEach(([name, value]) => formData.append(name, value));
+  return formData;
+};
+
+// Chunked uploads share one upload ID; `offset` only advances once a chunk is acknowledged,
+// so a retried attempt resumes from the first unconfirmed byte instead of starting over.
+interface ChunkedUploadSession {
+  uploadId: string;
+  offset: number;
+}
+
+// The bytes of one chunk as FormData can send them, and how to clean up afterwards
+interface FileChunk {
+  body: Blob | { uri: string; type: string; name: string };
+  release?: () => Promise<void>;
+}
+
+interface ChunkSource {
+  size: number;
+  read: (start: number, end: number) => Promise<FileChunk>;
+}
+
+const createBlobChunkSource = (blob: Blob): ChunkSource => ({
+  size: blob.size,
+  read: async (start, end) => ({ body: blob.slice(start, end) }),
+});
+
+// React Native's FormData only sends files by URI, so each chunk is copied to a temporary file
+const createFileChunkSource = (uri: string, size: number, mimeType: string, fileName: string): ChunkSource => ({
+  size,
+  read: async (start, end) => {
+    const chunkUri = `${FileSystem.cacheDirectory}chunk_${Date.now()}_${start}`;
+    const base64 = await FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: start,
+      length: end - start,
+    });
+    await FileSystem.writeAsStringAsync(chunkUri, base64, { encoding: FileSystem.EncodingType.Base64 });
+    return {
+      body: { uri: chunkUri, type: mimeType, name: fileName },
+      release: () => FileSystem.deleteAsync(chunkUri, { idempotent: true }),
+    };
+  },
+});
+
+const uploadInChunks = async (
+  source: ChunkSource,
+  fileName: string,
+  params: Record<string, string>,
+  session: ChunkedUploadSession,
+  options: UploadOptions
+): Promise<CloudinaryResponse> => {
+  let result: CloudinaryResponse | undefined;
+
+  while (session.offset < source.size) {
+    const start = session.offset;
+    const end = Math.min(start + CLOUDINARY_CHUNK_SIZE, source.size);
+    const chunk = await source.read(start, end);
+    try {
+      const formData = createFormData(params);
+      formData.append('file', chunk.body as any, fileName);
+
+      result = await postFormData<CloudinaryResponse>(CLOUDINARY_API_URL, formData, {
+        headers: {
+          'X-Unique-Upload-Id': session.uploadId,
+          'Content-Range': `bytes ${start}-${end - 1}/${source.size}`,
+        },
+        signal: options.signal,
+        onProgress: (loaded) => options.onProgress?.({ bytesTransferred: start + loaded, totalBytes: source.size }),
+      });
+    } finally {
+      await chunk.release?.();
+    }
+    session.offset = end;
+  }
+
+  return result!;
+};
+
 export const uploadImageToCloudinary = async (
   imageUri: string, 
   fileName: string,
-  onProgress?: (progress: number) => void
-): Promise<string> => {
+  options: UploadOptions = {}
+): Promise<UploadResult> => {
   try {
     console.log('Starting Cloudinary upload for:', fileName);
     
-    // Create FormData for the upload
-    const formData = new FormData();
+    // Upload preset and other parameters, identical for every attempt and chunk
+    const params = {
+      upload_preset: CLOUDINARY_UPLOAD_PRESET,
+      folder: options.album ? `${CLOUDINARY_UPLOADS_FOLDER}/${options.album}` : CLOUDINARY_UPLOADS_FOLDER,
+      public_id: `${Date.now()}_${fileName.split('.')[0]}`, // Unique public ID
+      tags: [...getLibraryTags(), ...(options.tags ?? [])].join(','),
+      // Lets the uploader delete the asset without a signature for the next 10 minutes
+      return_delete_token: 'true',
+    };
+    const retryOptions = { policy: options.retryPolicy, signal: options.signal, onRetry: options.onRetry };
+    let result: CloudinaryResponse;
     
-    if (imageUri.startsWith('data:')) {
-      // Handle base64 data URLs (from web drag & drop)
+    if (imageUri.startsWith('data:') || Platform.OS === 'web') {
+      // Handle base64 data URLs (from web drag & drop) and web picker URIs
       const response = await fetch(imageUri);
       const blob = await response.blob();
-      formData.append('file', blob, fileName);
+
+      if (blob.size > CLOUDINARY_CHUNK_SIZE) {
+        const session: ChunkedUploadSession = { uploadId: `${params.public_id}_${Date.now()}`, offset: 0 };
+        const source = createBlobChunkSource(blob);
+        result = await withRetry(() => uploadInChunks(source, fileName, params, session, options), retryOptions);
+      } else {
+        result = await withRetry(() => {
+          const formData = createFormData(params);
+          formData.append('file', blob, fileName);
+          return postFormData<CloudinaryResponse>(CLOUDINARY_API_URL, formData, {
+            signal: options.signal,
+            onProgress: (loaded, total) => options.onProgress?.({ bytesTransferred: loaded, totalBytes: total }),
+          });
+        }, retryOptions);
+      }
     } else {
-      // Handle file URIs (from mobile image picker)
+      // Handle file URIs (from mobile image picker); the native networking layer streams the file,
+      // and large files are chunked like on web so retries resume
       const fileExtension = fileName.split('.').pop() || 'jpg';
-      const mimeType = `image/${fileExtension === 'jpg' ? 'jpeg' : fileExtension}`;
-      
-      formData.append('file', {
-        uri: imageUri,
-        type: mimeType,
-        name: fileName,
-      } as any);
-    }
-    
-    // Add upload preset and other parameters
-    formData.append('upload_preset', CLOUDINARY_UPLOAD_PRESET);
-    formData.append('folder', 'uploads'); // Optional: organize uploads in folders
-    formData.append('public_id', `${Date.now()}_${fileName.split('.')[0]}`); // Unique public ID
-    
-    // Upload to Cloudinary
-    const response = await fetch(CLOUDINARY_API_URL, {
-      method: 'POST',
-      body: formData,
-      headers: {
-        'Accept': 'application/json',
-      },
-    });
-    
-    if (!response.ok) {
-      const errorText = await response.text();
-      console.error('Cloudinary upload failed:', errorText);
-      throw new Error(`Upload failed: ${response.status} ${response.statusText}`);
+      const mimeType = options.mimeType ?? `image/${fileExtension === 'jpg' ? 'jpeg' : fileExtension}`;
+      const info = await FileSystem.getInfoAsync(imageUri);
+      const size = info.exists ? info.size : 0;
+
+      if (size > CLOUDINARY_CHUNK_SIZE) {
+        const session: ChunkedUploadSession = { uploadId: `${params.public_id}_${Date.now()}`, offset: 0 };
+        const source = createFileChunkSource(imageUri, size, mimeType, fileName);
+        result = await withRetry(() => uploadInChunks(source, fileName, params, session, options), retryOptions);
+      } else {
+        result = await withRetry(() => {
+          const formData = createFormData(params);
+          formData.append('file', {
+            uri: imageUri,
+            type: mimeType,
+            name: fileName,
+          } as any);
+          return postFormData<CloudinaryResponse>(CLOUDINARY_API_URL, formData, {
+            signal: options.signal,
+            onProgress: (loaded, total) => options.onProgress?.({ bytesTransferred: loaded, totalBytes: total }),
+          });
+        }, retryOptions);
+      }
     }
     
-    const result: CloudinaryResponse = await response.json();
     console.log('Cloudinary upload successful:', result.secure_url);
     
-    return result.secure_url;
+    return {
+      url: result.secure_url,
+      publicId: result.public_id,
+      provider: 'cloudinary',
+      bytes: result.bytes,
+      width: result.width,
+      height: result.height,
+      format: result.format,
+      createdAt: result.created_at,
+      deleteToken: result.delete_token,
+    };
   } catch (error) {
     console.error('Cloudinary upload error:', error);
-    throw new Error(`Failed to upload image to Cloudinary: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    throw new UploadError(
+      `Failed to upload image to Cloudinary: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      error instanceof UploadError ? error : {}
+    );
   }
 };
 
@@ -80,6 +279,7 @@ export const getOptimizedImageUrl = (
     quality?: 'auto' | number;
     format?: 'auto' | 'webp' | 'jpg' | 'png';
     crop?: 'fill' | 'fit' | 'scale' | 'crop';
+    dpr?: number;
   } = {}
 ): string => {
   const {
@@ -87,7 +287,8 @@ export const getOptimizedImageUrl = (
     height,
     quality = 'auto',
     format = 'auto',
-    crop = 'fill'
+    crop = 'fill',
+    dpr
   } = options;
   
   let transformations = [];
@@ -110,10 +311,14 @@ export const getOptimizedImageUrl = (
   if (format) {
     transformations.push(`f_${format}`);
   }
+
+  if (dpr && dpr !== 1) {
+    transformations.push(`dpr_${dpr.toFixed(1)}`);
+  }
   
   const transformationString = transformations.length > 0 ? transformations.join(',') + '/' : '';
   
-  return `https://res.cloudinary.com/${CLOUDINARY_CLOUD_NAME}/image/upload/${transformationString}${publicId}`;
+  return `${CLOUDINARY_DELIVERY_BASE}/image/upload/${transformationString}${publicId}`;
 };
 
 // Helper function to extract public ID from Cloudinary URL
@@ -122,4 +327,76 @@ export const extractPublicIdFromUrl = (url: string): string => {
   return matches ? matches[1] : '';
 };
 
-export { CLOUDINARY_CLOUD_NAME, CLOUDINARY_UPLOAD_PRESET };
\ No newline at end of file
+export const deleteImageFromCloudinary = async (publicId: string, options: DeleteOptions = {}): Promise<void> => {
+  try {
+    let response: Response;
+
+    if (CLOUDINARY_DELETE_ENDPOINT) {
+      response = await fetch(CLOUDINARY_DELETE_ENDPOINT, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ public_id: publicId }),
+      });
+    } else if (options.deleteToken) {
+      response = await fetch(`${CLOUDINARY_API_BASE}/delete_by_token`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+        body: JSON.stringify({ token: options.deleteToken }),
+      });
+    } else {
+      throw new Error('a signed delete endpoint is required once the upload\'s delete token has expired');
+    }
+
+    if (!response.ok) {
+      throw new Error(`Delete failed: ${response.status} ${response.statusText}`);
+    }
+  } catch (error) {
+    console.error('Cloudinary delete error:', error);
+    throw new Error(`Failed to delete ${publicId} from Cloudinary: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const listCloudinaryImages = async (): Promise<StoredObject[]> => {
+  try {
+    const response = await fetch(
+      `${CLOUDINARY_DELIVERY_BASE}/image/list/${getLibraryTags().pop()}.json`
+    );
+
+    // The list endpoint answers 404 once no resource carries the tag, e.g. after the last image is deleted
+    if (response.status === 404) {
+      return [];
+    }
+    if (!response.ok) {
+      throw new Error(`List failed: ${response.status} ${response.statusText}`);
+    }
+
+    const result: CloudinaryListResponse = await response.json();
+    const libraryTags = getLibraryTags();
+
+    return result.resources.map((resource) => {
+      // uploads/<album>/<id>; anything else is outside an album
+      const [folder, album, ...rest] = resource.public_id.split('/');
+      return {
+        url: `${CLOUDINARY_DELIVERY_BASE}/image/upload/v${resource.version}/${resource.public_id}.${resource.format}`,
+        publicId: resource.public_id,
+        createdAt: resource.created_at,
+        album: folder === CLOUDINARY_UPLOADS_FOLDER && rest.length > 0 ? album : undefined,
+        tags: resource.tags?.filter((tag) => !libraryTags.includes(tag)),
+      };
+    });
+  } catch (error) {
+    console.error('Cloudinary list error:', error);
+    throw new Error(`Failed to list Cloudinary images: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const cloudinaryStorageProvider: StorageProvider = {
+  id: 'cloudinary',
+  name: 'Cloudinary',
+  upload: uploadImageToCloudinary,
+  delete: deleteImageFromCloudinary,
+  list: listCloudinaryImages,
+  getUrl: async (publicId, options) => getOptimizedImageUrl(publicId, options),
+};
+
+export { CLOUDINARY_CLOUD_NAME, CLOUDINARY_UPLOAD_PRESET };
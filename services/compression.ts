@@ -0,0 +1,93 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { probeFile } from './validation';
+
+export type CompressionFormat = 'jpeg' | 'webp';
+
+export interface CompressionOptions {
+  maxDimension: number;
+  quality: number;
+  format: CompressionFormat;
+}
+
+export const DEFAULT_COMPRESSION: CompressionOptions = {
+  maxDimension: 1920,
+  quality: 0.8,
+  format: 'jpeg',
+};
+
+export interface CompressionResult {
+  uri: string;
+  width: number;
+  height: number;
+  mimeType: string;
+  originalBytes: number;
+  bytes: number;
+}
+
+interface CompressionSource {
+  uri: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  bytes?: number;
+}
+
+// Downscales so the longest side fits `maxDimension` and re-encodes at the target quality.
+// Returns null when the source should be uploaded untouched: animated GIFs, or when the
+// re-encoded file would not be smaller than the original.
+export const compressImage = async (
+  source: CompressionSource,
+  options: CompressionOptions
+): Promise<CompressionResult | null> => {
+  if (source.mimeType === 'image/gif') {
+    return null;
+  }
+
+  const context = ImageManipulator.manipulate(source.uri);
+  const { width = 0, height = 0 } = source;
+  if (Math.max(width, height) > options.maxDimension) {
+    context.resize(width >= height ? { width: options.maxDimension } : { height: options.maxDimension });
+  }
+
+  const image = await context.renderAsync();
+  const result = await image.saveAsync({
+    compress: options.quality,
+    format: options.format === 'webp' ? SaveFormat.WEBP : SaveFormat.JPEG,
+  });
+
+  const [original, compressed] = await Promise.all([
+    source.bytes !== undefined ? { bytes: source.bytes } : probeFile(source.uri),
+    probeFile(result.uri),
+  ]);
+
+  if (compressed.bytes >= original.bytes) {
+    return null;
+  }
+
+  return {
+    uri: result.uri,
+    width: result.width,
+    height: result.height,
+    mimeType: `image/${options.format}`,
+    originalBytes: original.bytes,
+    bytes: compressed.bytes,
+  };
+};
+
+export const THUMBNAIL_SIZE = 400;
+
+// Renders a small JPEG preview for providers that can't resize images on the fly
+export const createThumbnail = async (uri: string, size = THUMBNAIL_SIZE) => {
+  const image = await ImageManipulator.manipulate(uri).resize({ width: size }).renderAsync();
+  return image.saveAsync({ compress: 0.7, format: SaveFormat.JPEG });
+};
+
+// Keeps the file name's extension in line with the re-encoded format
+export const renameForFormat = (fileName: string, format: CompressionFormat) => {
+  const extension = format === 'jpeg' ? 'jpg' : format;
+  const dot = fileName.lastIndexOf('.');
+  return `${dot > 0 ? fileName.slice(0, dot) : fileName}.${extension}`;
+};
+
+// HEIC and HEIF, the format iPhone photos are saved in
+export const isHeifFileName = (fileName: string) => /\.(heic|heif)$/i.test(fileName);
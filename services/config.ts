@@ -0,0 +1,198 @@
+import Constants from 'expo-constants';
+
+export interface FirebaseConfig {
+  apiKey: string;
+  authDomain: string;
+  projectId: string;
+  storageBucket: string;
+  messagingSenderId: string;
+  appId: string;
+}
+
+export interface CloudinaryConfig {
+  cloudName: string;
+  uploadPreset: string;
+  deleteEndpoint: string | null;
+}
+
+export interface EmulatorConfig {
+  authHost: string | null;
+  storageHost: string | null;
+  cloudinaryMockUrl: string | null;
+}
+
+export interface AppConfig {
+  firebase: FirebaseConfig;
+  cloudinary: CloudinaryConfig;
+  emulators: EmulatorConfig;
+}
+
+export type ConfigSection = 'firebase' | 'cloudinary';
+export type ConfigSource = 'env' | 'app.json' | 'emulator default' | 'unset';
+
+interface FieldSpec<K extends string> {
+  key: K;
+  label: string;
+  // EXPO_PUBLIC_* variables are inlined at build time, so each one has to be read explicitly
+  env: string | undefined;
+  required: boolean;
+  pattern?: RegExp;
+  hint?: string;
+  secret?: boolean;
+}
+
+export interface ConfigField {
+  key: string;
+  label: string;
+  value: string | null;
+  source: ConfigSource;
+  secret: boolean;
+}
+
+export interface ConfigIssue {
+  section: ConfigSection;
+  key: string;
+  message: string;
+}
+
+// Keys of each section's config object, so every field read maps onto a typed value
+interface SectionKeys {
+  firebase: keyof FirebaseConfig;
+  cloudinary: keyof CloudinaryConfig;
+}
+
+const SCHEMA: { [S in ConfigSection]: FieldSpec<SectionKeys[S]>[] } = {
+  firebase: [
+    { key: 'apiKey', label: 'API key', env: process.env.EXPO_PUBLIC_FIREBASE_API_KEY, required: true, pattern: /^AIza[\w-]{35}$/, hint: 'starts with "AIza"', secret: true },
+    { key: 'authDomain', label: 'Auth domain', env: process.env.EXPO_PUBLIC_FIREBASE_AUTH_DOMAIN, required: true, pattern: /^[\w.-]+\.[a-z]{2,}$/i, hint: 'a host name' },
+    { key: 'projectId', label: 'Project ID', env: process.env.EXPO_PUBLIC_FIREBASE_PROJECT_ID, required: true, pattern: /^[a-z0-9-]{4,30}$/, hint: 'lowercase letters, digits and dashes' },
+    { key: 'storageBucket', label: 'Storage bucket', env: process.env.EXPO_PUBLIC_FIREBASE_STORAGE_BUCKET, required: true, pattern: /^[\w.-]+$/, hint: 'a bucket name such as my-app.appspot.com' },
+    { key: 'messagingSenderId', label: 'Messaging sender ID', env: process.env.EXPO_PUBLIC_FIREBASE_MESSAGING_SENDER_ID, required: false, pattern: /^\d+$/, hint: 'digits only' },
+    { key: 'appId', label: 'App ID', env: process.env.EXPO_PUBLIC_FIREBASE_APP_ID, required: true, pattern: /^\d+:\d+:[a-z]+:[0-9a-f]+$/, hint: 'e.g. 1:1234:web:abcd' },
+  ],
+  cloudinary: [
+    { key: 'cloudName', label: 'Cloud name', env: process.env.EXPO_PUBLIC_CLOUDINARY_CLOUD_NAME, required: true, pattern: /^[a-z0-9_-]+$/i, hint: 'letters, digits, dashes and underscores' },
+    { key: 'uploadPreset', label: 'Upload preset', env: process.env.EXPO_PUBLIC_CLOUDINARY_UPLOAD_PRESET, required: true, pattern: /^[\w-]+$/, hint: 'an unsigned upload preset name' },
+    { key: 'deleteEndpoint', label: 'Delete endpoint', env: process.env.EXPO_PUBLIC_CLOUDINARY_DELETE_ENDPOINT, required: false, pattern: /^https?:\/\/\S+$/, hint: 'an http(s) URL' },
+  ],
+};
+
+const EMULATOR_ENV = {
+  authHost: process.env.EXPO_PUBLIC_FIREBASE_AUTH_EMULATOR_HOST,
+  storageHost: process.env.EXPO_PUBLIC_FIREBASE_STORAGE_EMULATOR_HOST,
+  cloudinaryMockUrl: process.env.EXPO_PUBLIC_CLOUDINARY_MOCK_URL,
+};
+
+// Emulators accept any project, so these stand in for whatever is missing while one is in use
+const EMULATOR_DEFAULTS: Record<ConfigSection, Record<string, string>> = {
+  firebase: {
+    apiKey: 'emulator',
+    authDomain: 'localhost',
+    projectId: 'demo-image-upload-portal',
+    storageBucket: 'demo-image-upload-portal.appspot.com',
+    appId: 'emulator',
+  },
+  cloudinary: {
+    cloudName: 'demo',
+    uploadPreset: 'mock',
+  },
+};
+
+type Extra = Partial<Record<ConfigSection | 'emulators', Record<string, unknown>>>;
+
+const extra = (Constants.expoConfig?.extra ?? {}) as Extra;
+
+// Values copied from the README ("your-api-key", "your-cloud-name", ...) count as unset
+const isPlaceholder = (value: string) => /^your[-_]/i.test(value);
+
+const readField = (
+  section: ConfigSection | 'emulators',
+  key: string,
+  env: string | undefined
+): { value: string | null; source: ConfigSource } => {
+  if (env?.trim()) {
+    return { value: env.trim(), source: 'env' };
+  }
+  const fromExtra = extra[section]?.[key];
+  if (typeof fromExtra === 'string' && fromExtra.trim()) {
+    return { value: fromExtra.trim(), source: 'app.json' };
+  }
+  return { value: null, source: 'unset' };
+};
+
+const readEmulator = (key: keyof EmulatorConfig) => readField('emulators', key, EMULATOR_ENV[key]).value;
+
+const emulators: EmulatorConfig = {
+  authHost: readEmulator('authHost'),
+  storageHost: readEmulator('storageHost'),
+  cloudinaryMockUrl: readEmulator('cloudinaryMockUrl'),
+};
+
+// With `emulated` set the section talks to a local stand-in, so nothing is required
+const loadSection = <S extends ConfigSection>(section: S, emulated: boolean) => {
+  const fields: ConfigField[] = [];
+  const issues: ConfigIssue[] = [];
+
+  for (const spec of SCHEMA[section]) {
+    let field = readField(section, spec.key, spec.env);
+    if (emulated && (!field.value || isPlaceholder(field.value)) && EMULATOR_DEFAULTS[section][spec.key]) {
+      field = { value: EMULATOR_DEFAULTS[section][spec.key], source: 'emulator default' };
+    }
+    fields.push({ key: spec.key, label: spec.label, secret: !!spec.secret, ...field });
+
+    if (emulated) continue;
+    if (!field.value || isPlaceholder(field.value)) {
+      if (spec.required) {
+        issues.push({
+          section,
+          key: spec.key,
+          message: field.value ? `${spec.label} is still the placeholder value` : `${spec.label} is not set`,
+        });
+      }
+    } else if (spec.pattern && !spec.pattern.test(field.value)) {
+      issues.push({ section, key: spec.key, message: `${spec.label} doesn't look right (expected ${spec.hint})` });
+    }
+  }
+
+  // Unset fields are empty strings; the issues above keep the provider from being used
+  const values = Object.fromEntries(fields.map((field) => [field.key, field.value ?? ''])) as Record<SectionKeys[S], string>;
+  return { fields, issues, values };
+};
+
+const firebase = loadSection('firebase', !!emulators.storageHost);
+const cloudinary = loadSection('cloudinary', !!emulators.cloudinaryMockUrl);
+
+export const config: AppConfig = {
+  firebase: firebase.values,
+  cloudinary: {
+    cloudName: cloudinary.values.cloudName,
+    uploadPreset: cloudinary.values.uploadPreset,
+    deleteEndpoint: cloudinary.values.deleteEndpoint || null,
+  },
+  emulators,
+};
+
+export const CONFIG_FIELDS: Record<ConfigSection, ConfigField[]> = {
+  firebase: firebase.fields,
+  cloudinary: cloudinary.fields,
+};
+
+export const CONFIG_ISSUES: Record<ConfigSection, ConfigIssue[]> = {
+  firebase: firebase.issues,
+  cloudinary: cloudinary.issues,
+};
+
+// Providers without configuration (local storage) are always usable
+export const getConfigIssues = (section: string): ConfigIssue[] =>
+  CONFIG_ISSUES[section as ConfigSection] ?? [];
+
+export const isConfigured = (section: string) => getConfigIssues(section).length === 0;
+
+// Shows enough of a secret to tell two keys apart
+export const maskValue = (value: string) =>
+  value.length <= 8 ? '••••' : `${value.slice(0, 4)}••••${value.slice(-4)}`;
+
+// Validated once at startup; the Diagnostics screen shows the details
+for (const issue of [...firebase.issues, ...cloudinary.issues]) {
+  console.warn(`Config (${issue.section}): ${issue.message}`);
+}
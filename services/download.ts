@@ -0,0 +1,172 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import * as MediaLibrary from 'expo-media-library';
+import * as Sharing from 'expo-sharing';
+import type { LibraryImage } from '@/stores/imageLibrary';
+import { getOptimizedImageUrl } from './cloudinary';
+
+// Shared and downloaded files are staged here on native before being handed to the share
+// sheet or the media library; the OS may purge the cache directory at any time.
+export const DOWNLOADS_DIRECTORY = FileSystem.cacheDirectory
+  ? `${FileSystem.cacheDirectory}downloads/`
+  : null;
+
+export type Rendition = 'original' | 'large' | 'medium';
+
+export const RENDITION_LABELS: Record<Rendition, string> = {
+  original: 'Original',
+  large: 'Large (2048px)',
+  medium: 'Medium (1024px)',
+};
+
+const RENDITION_WIDTHS: Record<Exclude<Rendition, 'original'>, number> = {
+  large: 2048,
+  medium: 1024,
+};
+
+// Only Cloudinary can render resized copies on the fly; other providers serve the original
+export const getRenditions = (image: LibraryImage): Rendition[] =>
+  image.provider === 'cloudinary' ? ['original', 'large', 'medium'] : ['original'];
+
+const getRenditionUrl = (image: LibraryImage, rendition: Rendition) =>
+  rendition === 'original' || image.provider !== 'cloudinary'
+    ? image.url
+    : getOptimizedImageUrl(image.publicId, { width: RENDITION_WIDTHS[rendition], crop: 'fit', format: 'jpg' });
+
+const getRenditionFileName = (image: LibraryImage, rendition: Rendition) => {
+  if (rendition === 'original' || image.provider !== 'cloudinary') return image.name;
+  const baseName = image.name.replace(/\.[^.]+$/, '');
+  return `${baseName}_${RENDITION_WIDTHS[rendition]}.jpg`;
+};
+
+export interface TransferOptions {
+  rendition?: Rendition;
+  onProgress?: (progress: number) => void;
+}
+
+// Copies the image into the downloads cache, reporting progress as a fraction. Local images
+// are already files on the device, so they are used in place.
+const downloadToCache = async (image: LibraryImage, { rendition = 'original', onProgress }: TransferOptions) => {
+  const url = getRenditionUrl(image, rendition);
+  if (url.startsWith('file:')) {
+    onProgress?.(1);
+    return url;
+  }
+
+  const info = await FileSystem.getInfoAsync(DOWNLOADS_DIRECTORY!);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(DOWNLOADS_DIRECTORY!, { intermediates: true });
+  }
+
+  const download = FileSystem.createDownloadResumable(
+    url,
+    `${DOWNLOADS_DIRECTORY}${Date.now()}_${getRenditionFileName(image, rendition)}`,
+    {},
+    ({ totalBytesWritten, totalBytesExpectedToWrite }) => {
+      if (totalBytesExpectedToWrite > 0) {
+        onProgress?.(totalBytesWritten / totalBytesExpectedToWrite);
+      }
+    }
+  );
+
+  const result = await download.downloadAsync();
+  if (!result || result.status >= 400) {
+    throw new Error(`Download failed${result ? ` (HTTP ${result.status})` : ''}`);
+  }
+  onProgress?.(1);
+  return result.uri;
+};
+
+// Reads the response body in chunks so progress can be reported when the size is known
+const fetchBlob = async (url: string, onProgress?: (progress: number) => void): Promise<Blob> => {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Download failed (HTTP ${response.status})`);
+  }
+
+  const total = Number(response.headers.get('content-length')) || 0;
+  if (!response.body || total === 0) {
+    const blob = await response.blob();
+    onProgress?.(1);
+    return blob;
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let received = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    received += value.length;
+    onProgress?.(Math.min(1, received / total));
+  }
+  return new Blob(chunks, { type: response.headers.get('content-type') ?? undefined });
+};
+
+export const downloadImage = async (image: LibraryImage, options: TransferOptions = {}): Promise<void> => {
+  const rendition = options.rendition ?? 'original';
+
+  try {
+    if (Platform.OS === 'web') {
+      const blob = await fetchBlob(getRenditionUrl(image, rendition), options.onProgress);
+      const objectUrl = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = objectUrl;
+      link.download = getRenditionFileName(image, rendition);
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(objectUrl);
+      return;
+    }
+
+    const permission = await MediaLibrary.requestPermissionsAsync(true);
+    if (!permission.granted) {
+      throw new Error('Permission to save to your photos was denied');
+    }
+
+    const uri = await downloadToCache(image, options);
+    await MediaLibrary.saveToLibraryAsync(uri);
+  } catch (error) {
+    console.error('Download error:', error);
+    throw error instanceof Error ? error : new Error('Failed to download image');
+  }
+};
+
+export const shareImage = async (image: LibraryImage, options: TransferOptions = {}): Promise<void> => {
+  const rendition = options.rendition ?? 'original';
+
+  try {
+    if (Platform.OS === 'web') {
+      const url = getRenditionUrl(image, rendition);
+      if (typeof navigator === 'undefined' || !navigator.share) {
+        throw new Error('Sharing is not supported in this browser');
+      }
+
+      // Prefer sharing the file itself; fall back to the link where files can't be shared
+      const blob = await fetchBlob(url, options.onProgress).catch(() => null);
+      const file = blob ? new File([blob], getRenditionFileName(image, rendition), { type: blob.type }) : null;
+      if (file && navigator.canShare?.({ files: [file] })) {
+        await navigator.share({ files: [file], title: image.name });
+      } else if (!url.startsWith('data:') && !url.startsWith('blob:')) {
+        await navigator.share({ url, title: image.name });
+      } else {
+        throw new Error('This image cannot be shared from this browser');
+      }
+      return;
+    }
+
+    if (!(await Sharing.isAvailableAsync())) {
+      throw new Error('Sharing is not available on this device');
+    }
+
+    const uri = await downloadToCache(image, options);
+    await Sharing.shareAsync(uri, { dialogTitle: image.name });
+  } catch (error) {
+    // Dismissing the Web Share sheet rejects with an AbortError, which isn't a failure
+    if (error instanceof Error && error.name === 'AbortError') return;
+    console.error('Share error:', error);
+    throw error instanceof Error ? error : new Error('Failed to share image');
+  }
+};
@@ -0,0 +1,85 @@
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { CropRect, FULL_CROP, toPixelCrop } from '@/utils/crop';
+import { renameForFormat } from './compression';
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+export interface ImageEdits {
+  rotation: Rotation;
+  flipHorizontal: boolean;
+  flipVertical: boolean;
+  crop: CropRect;
+}
+
+export const DEFAULT_EDITS: ImageEdits = {
+  rotation: 0,
+  flipHorizontal: false,
+  flipVertical: false,
+  crop: FULL_CROP,
+};
+
+const PREVIEW_MAX_DIMENSION = 1080;
+
+export const hasEdits = (edits: ImageEdits) =>
+  edits.rotation !== 0 ||
+  edits.flipHorizontal ||
+  edits.flipVertical ||
+  edits.crop.x !== 0 ||
+  edits.crop.y !== 0 ||
+  edits.crop.width !== 1 ||
+  edits.crop.height !== 1;
+
+// Rotation and flips are applied first; the crop is relative to the result
+const orient = (uri: string, { rotation, flipHorizontal, flipVertical }: ImageEdits) => {
+  const context = ImageManipulator.manipulate(uri);
+  if (rotation) context.rotate(rotation);
+  if (flipHorizontal) context.flip('horizontal');
+  if (flipVertical) context.flip('vertical');
+  return context;
+};
+
+// A downscaled render of the rotated/flipped image for the editor to draw the crop frame over
+export const renderPreview = async (uri: string, edits: ImageEdits) => {
+  const context = orient(uri, edits);
+  const oriented = await context.renderAsync();
+  if (Math.max(oriented.width, oriented.height) > PREVIEW_MAX_DIMENSION) {
+    context.resize(
+      oriented.width >= oriented.height ? { width: PREVIEW_MAX_DIMENSION } : { height: PREVIEW_MAX_DIMENSION }
+    );
+  }
+  const preview = await context.renderAsync();
+  return preview.saveAsync({ compress: 0.8, format: SaveFormat.JPEG });
+};
+
+export interface EditedImage {
+  uri: string;
+  fileName: string;
+  mimeType: string;
+  width: number;
+  height: number;
+}
+
+// Renders the edits at full resolution. PNGs stay PNG to keep transparency; everything else
+// is written as a high-quality JPEG.
+export const applyEdits = async (
+  source: { uri: string; fileName: string; mimeType?: string },
+  edits: ImageEdits
+): Promise<EditedImage> => {
+  const oriented = await orient(source.uri, edits).renderAsync();
+  const cropped = await ImageManipulator.manipulate(oriented)
+    .crop(toPixelCrop(edits.crop, oriented.width, oriented.height))
+    .renderAsync();
+
+  const png = source.mimeType === 'image/png' || /\.png$/i.test(source.fileName);
+  const result = await cropped.saveAsync(
+    png ? { format: SaveFormat.PNG } : { compress: 0.92, format: SaveFormat.JPEG }
+  );
+
+  return {
+    uri: result.uri,
+    fileName: png ? source.fileName : renameForFormat(source.fileName, 'jpeg'),
+    mimeType: png ? 'image/png' : 'image/jpeg',
+    width: result.width,
+    height: result.height,
+  };
+};
@@ -0,0 +1,226 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import { ImageManipulator, SaveFormat } from 'expo-image-manipulator';
+import { decodeBase64, encodeBase64, probeFile } from './validation';
+
+export interface ExifData {
+  make?: string;
+  model?: string;
+  takenAt?: string;
+  orientation?: number;
+  latitude?: number;
+  longitude?: number;
+  altitude?: number;
+}
+
+// The APP1 segment holding EXIF is capped at 64KB and sits near the start of the file
+const EXIF_SCAN_LENGTH = 128 * 1024;
+
+const TAGS = {
+  make: 0x010f,
+  model: 0x0110,
+  orientation: 0x0112,
+  dateTime: 0x0132,
+  exifIfd: 0x8769,
+  gpsIfd: 0x8825,
+  dateTimeOriginal: 0x9003,
+  gpsLatitudeRef: 0x0001,
+  gpsLatitude: 0x0002,
+  gpsLongitudeRef: 0x0003,
+  gpsLongitude: 0x0004,
+  gpsAltitudeRef: 0x0005,
+  gpsAltitude: 0x0006,
+};
+
+// Byte size of each TIFF field type: BYTE, ASCII, SHORT, LONG, RATIONAL, UNDEFINED, SLONG, SRATIONAL
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+type IfdValue = string | number | number[];
+
+const readIfd = (view: DataView, tiffStart: number, offset: number, littleEndian: boolean) => {
+  const entries = new Map<number, IfdValue>();
+  const start = tiffStart + offset;
+  if (start + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(start, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = start + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const components = view.getUint32(entry + 4, littleEndian);
+    const size = (TYPE_SIZES[type] ?? 0) * components;
+    if (size === 0) continue;
+
+    const valueOffset = size <= 4 ? entry + 8 : tiffStart + view.getUint32(entry + 8, littleEndian);
+    if (valueOffset + size > view.byteLength) continue;
+
+    if (type === 2) {
+      let text = '';
+      for (let j = 0; j < components; j++) {
+        const code = view.getUint8(valueOffset + j);
+        if (code === 0) break;
+        text += String.fromCharCode(code);
+      }
+      entries.set(tag, text.trim());
+    } else if (type === 5 || type === 10) {
+      const values: number[] = [];
+      for (let j = 0; j < components; j++) {
+        const numerator = type === 5
+          ? view.getUint32(valueOffset + j * 8, littleEndian)
+          : view.getInt32(valueOffset + j * 8, littleEndian);
+        const denominator = type === 5
+          ? view.getUint32(valueOffset + j * 8 + 4, littleEndian)
+          : view.getInt32(valueOffset + j * 8 + 4, littleEndian);
+        values.push(denominator ? numerator / denominator : 0);
+      }
+      entries.set(tag, components === 1 ? values[0] : values);
+    } else if (type === 3) {
+      entries.set(tag, view.getUint16(valueOffset, littleEndian));
+    } else if (type === 4 || type === 9) {
+      entries.set(tag, view.getUint32(valueOffset, littleEndian));
+    } else {
+      entries.set(tag, view.getUint8(valueOffset));
+    }
+  }
+  return entries;
+};
+
+// "2024:05:01 14:03:22" -> "2024-05-01T14:03:22" (camera local time; EXIF has no time zone)
+const parseExifDate = (value: IfdValue | undefined) => {
+  if (typeof value !== 'string') return undefined;
+  const match = /^(\d{4}):(\d{2}):(\d{2}) (\d{2}):(\d{2}):(\d{2})/.exec(value);
+  return match ? `${match[1]}-${match[2]}-${match[3]}T${match[4]}:${match[5]}:${match[6]}` : undefined;
+};
+
+const toDegrees = (value: IfdValue | undefined, ref: IfdValue | undefined) => {
+  if (!Array.isArray(value) || value.length < 3) return undefined;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === 'S' || ref === 'W' ? -degrees : degrees;
+};
+
+// Returns the byte offset of the TIFF header inside a JPEG's EXIF segment
+const findTiffHeader = (bytes: Uint8Array): number | null => {
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  let offset = 2;
+  while (offset + 4 < bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3];
+    if (marker === 0xda) break; // Start of scan: no metadata follows
+    if (
+      marker === 0xe1 &&
+      String.fromCharCode(...bytes.slice(offset + 4, offset + 8)) === 'Exif' &&
+      bytes[offset + 8] === 0 &&
+      bytes[offset + 9] === 0
+    ) {
+      return offset + 10;
+    }
+    offset += 2 + length;
+  }
+  return null;
+};
+
+export const parseExif = (bytes: Uint8Array): ExifData | null => {
+  const tiffStart = findTiffHeader(bytes);
+  if (tiffStart === null) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const byteOrder = view.getUint16(tiffStart);
+  if (byteOrder !== 0x4949 && byteOrder !== 0x4d4d) return null;
+  const littleEndian = byteOrder === 0x4949;
+
+  const ifd0 = readIfd(view, tiffStart, view.getUint32(tiffStart + 4, littleEndian), littleEndian);
+  const exifOffset = ifd0.get(TAGS.exifIfd);
+  const gpsOffset = ifd0.get(TAGS.gpsIfd);
+  const exif = typeof exifOffset === 'number' ? readIfd(view, tiffStart, exifOffset, littleEndian) : new Map();
+  const gps = typeof gpsOffset === 'number' ? readIfd(view, tiffStart, gpsOffset, littleEndian) : new Map();
+
+  const altitude = gps.get(TAGS.gpsAltitude);
+  const data: ExifData = {
+    make: ifd0.get(TAGS.make) as string | undefined,
+    model: ifd0.get(TAGS.model) as string | undefined,
+    orientation: ifd0.get(TAGS.orientation) as number | undefined,
+    takenAt: parseExifDate(exif.get(TAGS.dateTimeOriginal) ?? ifd0.get(TAGS.dateTime)),
+    latitude: toDegrees(gps.get(TAGS.gpsLatitude), gps.get(TAGS.gpsLatitudeRef)),
+    longitude: toDegrees(gps.get(TAGS.gpsLongitude), gps.get(TAGS.gpsLongitudeRef)),
+    altitude: typeof altitude === 'number' ? (gps.get(TAGS.gpsAltitudeRef) === 1 ? -altitude : altitude) : undefined,
+  };
+
+  // Drops unset keys so records stay small when persisted
+  const entries = Object.entries(data).filter(([, value]) => value !== undefined && value !== '');
+  return entries.length > 0 ? (Object.fromEntries(entries) as ExifData) : null;
+};
+
+export const readExif = async (uri: string): Promise<ExifData | null> => {
+  try {
+    const { header } = await probeFile(uri, EXIF_SCAN_LENGTH);
+    return parseExif(header);
+  } catch (error) {
+    console.error('EXIF read error:', error);
+    return null;
+  }
+};
+
+export const needsOrientation = (exif?: ExifData | null) =>
+  exif?.orientation !== undefined && exif.orientation !== 1;
+
+export const withoutLocation = ({ latitude, longitude, altitude, ...rest }: ExifData): ExifData => rest;
+
+// The image decoders used by expo-image-manipulator (and browsers) apply the EXIF orientation
+// when loading, so re-encoding writes upright pixels. The re-encoded file carries no EXIF.
+export const applyOrientation = async (uri: string) => {
+  const image = await ImageManipulator.manipulate(uri).renderAsync();
+  return image.saveAsync({ compress: 0.95, format: SaveFormat.JPEG });
+};
+
+const readAllBytes = async (uri: string): Promise<Uint8Array> => {
+  if (uri.startsWith('data:')) {
+    return decodeBase64(uri.slice(uri.indexOf(',') + 1));
+  }
+  if (Platform.OS === 'web') {
+    return new Uint8Array(await (await fetch(uri)).arrayBuffer());
+  }
+  return decodeBase64(await FileSystem.readAsStringAsync(uri, { encoding: FileSystem.EncodingType.Base64 }));
+};
+
+// APP1 (EXIF and XMP) and APP13 (IPTC) carry location, device serials and capture times
+const METADATA_MARKERS = [0xe1, 0xed];
+
+// Removes metadata segments from a JPEG without re-encoding it. Returns null when there was
+// nothing to remove, or the URI of a stripped copy.
+export const stripMetadata = async (uri: string): Promise<string | null> => {
+  const bytes = await readAllBytes(uri);
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) return null;
+
+  const kept: Uint8Array[] = [bytes.subarray(0, 2)];
+  let removed = false;
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda) break;
+    const end = offset + 2 + ((bytes[offset + 2] << 8) | bytes[offset + 3]);
+    if (METADATA_MARKERS.includes(marker)) {
+      removed = true;
+    } else {
+      kept.push(bytes.subarray(offset, end));
+    }
+    offset = end;
+  }
+  if (!removed) return null;
+  kept.push(bytes.subarray(offset));
+
+  const output = new Uint8Array(kept.reduce((sum, part) => sum + part.length, 0));
+  kept.reduce((position, part) => {
+    output.set(part, position);
+    return position + part.length;
+  }, 0);
+
+  if (Platform.OS === 'web') {
+    return URL.createObjectURL(new Blob([output], { type: 'image/jpeg' }));
+  }
+  const target = `${FileSystem.cacheDirectory}stripped_${Date.now()}.jpg`;
+  await FileSystem.writeAsStringAsync(target, encodeBase64(output), { encoding: FileSystem.EncodingType.Base64 });
+  return target;
+};
@@ -1,48 +1,210 @@
-import { initializeApp } from 'firebase/app';
-import { getStorage, ref, uploadBytes, getDownloadURL } from 'firebase/storage';
+import {
+  getStorage,
+  ref,
+  uploadBytesResumable,
+  getDownloadURL,
+  deleteObject,
+  listAll,
+  getMetadata,
+  updateMetadata,
+  StorageReference,
+  StorageError,
+  connectStorageEmulator,
+} from 'firebase/storage';
+import type { StorageProvider, UploadOptions, UploadResult, StoredObject } from './storage';
+import { UploadError, withRetry } from './retry';
+import { createThumbnail } from './compression';
+import { firebaseApp } from './firebaseApp';
+import { getCurrentUserId } from './auth';
+import { config } from './config';
 
-// Firebase configuration
-const firebaseConfig = {
-  apiKey: "your-api-key",
-  authDomain: "your-project.firebaseapp.com",
-  projectId: "your-project-id",
-  storageBucket: "your-project.appspot.com",
-  messagingSenderId: "123456789",
-  appId: "your-app-id"
+const storage = getStorage(firebaseApp);
+
+// e.g. localhost:9199 from `firebase emulators:start` (use 10.0.2.2 from the Android emulator)
+if (config.emulators.storageHost) {
+  const [host, port] = config.emulators.storageHost.split(':');
+  connectStorageEmulator(storage, host, Number(port) || 9199);
+}
+
+// Every user gets their own namespace, so storage rules can restrict access to `users/{uid}/`
+const getImagesPath = () => {
+  const uid = getCurrentUserId();
+  if (!uid) {
+    throw new UploadError('Sign in to use Firebase Storage');
+  }
+  return `users/${uid}/images`;
+};
+
+// Firebase serves files as stored, so a small JPEG is uploaded next to each image for the
+// gallery grid. Kept in a sub-folder so listAll() on the images path doesn't return them.
+const getThumbnailPath = (publicId: string) => {
+  const dot = publicId.lastIndexOf('/');
+  return `${publicId.slice(0, dot)}/thumbnails/${publicId.slice(dot + 1)}`;
+};
+
+const toUploadError = (error: unknown): UploadError => {
+  if (error instanceof StorageError) {
+    return new UploadError(error.message, {
+      status: error.status || undefined,
+      network: error.code === 'storage/retry-limit-exceeded',
+      cancelled: error.code === 'storage/canceled',
+    });
+  }
+  return new UploadError(error instanceof Error ? error.message : 'Unknown error');
+};
+
+// Best effort: a missing thumbnail only means the gallery falls back to the full image
+const uploadThumbnail = async (imageUri: string, publicId: string): Promise<string | undefined> => {
+  try {
+    const thumbnail = await createThumbnail(imageUri);
+    const blob = await (await fetch(thumbnail.uri)).blob();
+    const thumbnailRef = ref(storage, getThumbnailPath(publicId));
+    await uploadBytesResumable(thumbnailRef, blob, { contentType: 'image/jpeg' });
+    return await getDownloadURL(thumbnailRef);
+  } catch (error) {
+    console.error('Firebase thumbnail error:', error);
+    return undefined;
+  }
 };
 
-// Initialize Firebase
-const app = initializeApp(firebaseConfig);
-const storage = getStorage(app);
+export const uploadImageToFirebase = async (
+  imageUri: string,
+  fileName: string,
+  options: UploadOptions = {}
+): Promise<UploadResult> => {
+  const imagesPath = getImagesPath();
 
-export const uploadImageToFirebase = async (imageUri: string, fileName: string): Promise<string> => {
   try {
-    // Create a reference to the file location
-    const imageRef = ref(storage, `images/${Date.now()}_${fileName}`);
-    
-    let blob: Blob;
-    
-    if (imageUri.startsWith('data:')) {
-      // Handle base64 data URLs (from web drag & drop)
-      const response = await fetch(imageUri);
-      blob = await response.blob();
-    } else {
-      // Handle file URIs (from mobile image picker)
-      const response = await fetch(imageUri);
-      blob = await response.blob();
-    }
-    
-    // Upload the file
-    const snapshot = await uploadBytes(imageRef, blob);
-    
+    // Create a reference to the file location; albums are sub-folders of the user's images folder
+    const folder = options.album ? `${imagesPath}/${options.album}` : imagesPath;
+    const imageRef = ref(storage, `${folder}/${Date.now()}_${fileName}`);
+
+    // fetch() resolves both base64 data URLs (web drag & drop) and file URIs (mobile picker)
+    const response = await fetch(imageUri);
+    const blob = await response.blob();
+
+    // Upload the file as a resumable task: progress is reported per byte, and the SDK resumes
+    // interrupted chunks from the last committed offset. Failures that outlast the SDK's own
+    // retry window are retried by our policy with a fresh task.
+    const snapshot = await withRetry(async () => {
+      options.signal?.throwIfAborted();
+
+      const task = uploadBytesResumable(imageRef, blob, {
+        contentType: options.mimeType ?? (blob.type || undefined),
+        customMetadata: options.tags?.length ? { tags: options.tags.join(',') } : undefined,
+      });
+      const cancelTask = () => task.cancel();
+      options.signal?.addEventListener('abort', cancelTask);
+      task.on('state_changed', ({ bytesTransferred, totalBytes }) => {
+        options.onProgress?.({ bytesTransferred, totalBytes });
+      });
+
+      try {
+        return await task;
+      } catch (error) {
+        throw toUploadError(error);
+      } finally {
+        options.signal?.removeEventListener('abort', cancelTask);
+      }
+    }, { policy: options.retryPolicy, signal: options.signal, onRetry: options.onRetry });
+
     // Get the download URL
-    const downloadURL = await getDownloadURL(snapshot.ref);
-    
-    return downloadURL;
+    const [downloadURL, thumbnailUrl] = await Promise.all([
+      getDownloadURL(snapshot.ref),
+      uploadThumbnail(imageUri, snapshot.ref.fullPath),
+    ]);
+
+    return {
+      url: downloadURL,
+      publicId: snapshot.ref.fullPath,
+      provider: 'firebase',
+      bytes: snapshot.metadata.size,
+      format: snapshot.metadata.contentType?.replace('image/', ''),
+      createdAt: snapshot.metadata.timeCreated,
+      thumbnailUrl,
+    };
   } catch (error) {
     console.error('Firebase upload error:', error);
-    throw new Error('Failed to upload image to Firebase');
+    throw new UploadError('Failed to upload image to Firebase', error instanceof UploadError ? error : {});
+  }
+};
+
+export const deleteImageFromFirebase = async (publicId: string): Promise<void> => {
+  try {
+    await deleteObject(ref(storage, publicId));
+    // The image itself is gone at this point, so a leftover thumbnail isn't worth failing over
+    await deleteObject(ref(storage, getThumbnailPath(publicId))).catch((error) => {
+      if (!(error instanceof StorageError && error.code === 'storage/object-not-found')) {
+        console.error('Firebase thumbnail delete error:', error);
+      }
+    });
+  } catch (error) {
+    console.error('Firebase delete error:', error);
+    throw new Error('Failed to delete image from Firebase');
+  }
+};
+
+// Lists the images in one folder, recursing into album sub-folders from the top level
+const listFolder = async (folder: StorageReference, album?: string): Promise<StoredObject[]> => {
+  const [{ items, prefixes }, thumbnails] = await Promise.all([
+    listAll(folder),
+    listAll(ref(folder, 'thumbnails')),
+  ]);
+  const thumbnailRefs = new Map(thumbnails.items.map((item) => [item.name, item]));
+  const albums = album
+    ? []
+    : prefixes.filter((prefix) => prefix.name !== 'thumbnails').map((prefix) => listFolder(prefix, prefix.name));
+
+  const objects = await Promise.all(
+    items.map(async (item) => {
+      const thumbnailRef = thumbnailRefs.get(item.name);
+      const [url, metadata, thumbnailUrl] = await Promise.all([
+        getDownloadURL(item),
+        getMetadata(item),
+        thumbnailRef ? getDownloadURL(thumbnailRef) : undefined,
+      ]);
+      return {
+        url,
+        publicId: item.fullPath,
+        bytes: metadata.size,
+        createdAt: metadata.timeCreated,
+        thumbnailUrl,
+        album,
+        tags: metadata.customMetadata?.tags?.split(',').filter(Boolean),
+      };
+    })
+  );
+  return [...objects, ...(await Promise.all(albums)).flat()];
+};
+
+export const listFirebaseImages = async (): Promise<StoredObject[]> => {
+  const imagesPath = getImagesPath();
+
+  try {
+    return await listFolder(ref(storage, imagesPath));
+  } catch (error) {
+    console.error('Firebase list error:', error);
+    throw new Error('Failed to list images in Firebase');
+  }
+};
+
+export const updateFirebaseTags = async (publicId: string, tags: string[]): Promise<void> => {
+  try {
+    await updateMetadata(ref(storage, publicId), { customMetadata: { tags: tags.join(',') } });
+  } catch (error) {
+    console.error('Firebase metadata error:', error);
+    throw new Error('Failed to update tags in Firebase');
   }
 };
 
-export { storage };
\ No newline at end of file
+export const firebaseStorageProvider: StorageProvider = {
+  id: 'firebase',
+  name: 'Firebase Storage',
+  upload: uploadImageToFirebase,
+  delete: deleteImageFromFirebase,
+  list: listFirebaseImages,
+  getUrl: (publicId) => getDownloadURL(ref(storage, publicId)),
+  updateTags: updateFirebaseTags,
+};
+
+export { storage };
@@ -0,0 +1,6 @@
+import { initializeApp } from 'firebase/app';
+import { config } from './config';
+
+// Initialize Firebase. Shared by the storage and auth modules; the values come from
+// services/config.ts, which reports anything missing on the Diagnostics screen.
+export const firebaseApp = initializeApp(config.firebase);
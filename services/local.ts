@@ -0,0 +1,135 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type { StorageProvider, UploadOptions, UploadResult, StoredObject } from './storage';
+
+// Local storage keeps uploads on the device: files under the document directory on native,
+// an in-memory map on web. Useful for development and for running the app without a backend.
+const LOCAL_UPLOADS_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}uploads/`
+  : null;
+
+const memoryStore = new Map<string, StoredObject>();
+
+const usesFileSystem = () => Platform.OS !== 'web' && LOCAL_UPLOADS_DIRECTORY !== null;
+
+// Albums are sub-directories of the uploads directory
+const ensureUploadsDirectory = async (album?: string) => {
+  if (!LOCAL_UPLOADS_DIRECTORY) return;
+  const directory = album ? `${LOCAL_UPLOADS_DIRECTORY}${album}/` : LOCAL_UPLOADS_DIRECTORY;
+  const info = await FileSystem.getInfoAsync(directory);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(directory, { intermediates: true });
+  }
+};
+
+export const uploadImageToLocal = async (
+  imageUri: string,
+  fileName: string,
+  options: UploadOptions = {}
+): Promise<UploadResult> => {
+  try {
+    const publicId = `${options.album ? `${options.album}/` : ''}${Date.now()}_${fileName}`;
+    const createdAt = new Date().toISOString();
+    let url = imageUri;
+    let bytes: number | undefined;
+    options.signal?.throwIfAborted();
+
+    if (usesFileSystem()) {
+      await ensureUploadsDirectory(options.album);
+      url = `${LOCAL_UPLOADS_DIRECTORY}${publicId}`;
+      await FileSystem.copyAsync({ from: imageUri, to: url });
+      const info = await FileSystem.getInfoAsync(url);
+      bytes = info.exists ? info.size : undefined;
+    } else {
+      const response = await fetch(imageUri);
+      const blob = await response.blob();
+      bytes = blob.size;
+    }
+
+    memoryStore.set(publicId, { url, publicId, bytes, createdAt, album: options.album, tags: options.tags });
+    if (bytes !== undefined) {
+      options.onProgress?.({ bytesTransferred: bytes, totalBytes: bytes });
+    }
+
+    return {
+      url,
+      publicId,
+      provider: 'local',
+      bytes,
+      format: fileName.split('.').pop()?.toLowerCase(),
+      createdAt,
+    };
+  } catch (error) {
+    console.error('Local upload error:', error);
+    throw new Error('Failed to store image locally');
+  }
+};
+
+export const deleteImageFromLocal = async (publicId: string): Promise<void> => {
+  try {
+    if (usesFileSystem()) {
+      await FileSystem.deleteAsync(`${LOCAL_UPLOADS_DIRECTORY}${publicId}`, { idempotent: true });
+    }
+    memoryStore.delete(publicId);
+  } catch (error) {
+    console.error('Local delete error:', error);
+    throw new Error('Failed to delete local image');
+  }
+};
+
+const listLocalDirectory = async (album?: string): Promise<StoredObject[]> => {
+  const prefix = album ? `${album}/` : '';
+  const names = await FileSystem.readDirectoryAsync(`${LOCAL_UPLOADS_DIRECTORY}${prefix}`);
+
+  const entries = await Promise.all(
+    names.map(async (name): Promise<StoredObject[]> => {
+      const url = `${LOCAL_UPLOADS_DIRECTORY}${prefix}${name}`;
+      const info = await FileSystem.getInfoAsync(url);
+      if (info.exists && info.isDirectory) {
+        return album ? [] : listLocalDirectory(name);
+      }
+      return [{
+        url,
+        publicId: `${prefix}${name}`,
+        bytes: info.exists ? info.size : undefined,
+        createdAt: info.exists ? new Date(info.modificationTime * 1000).toISOString() : undefined,
+        album,
+      }];
+    })
+  );
+  return entries.flat();
+};
+
+export const listLocalImages = async (): Promise<StoredObject[]> => {
+  if (!usesFileSystem()) {
+    return Array.from(memoryStore.values());
+  }
+
+  try {
+    await ensureUploadsDirectory();
+    return await listLocalDirectory();
+  } catch (error) {
+    console.error('Local list error:', error);
+    throw new Error('Failed to list local images');
+  }
+};
+
+export const localStorageProvider: StorageProvider = {
+  id: 'local',
+  name: 'Local Device',
+  upload: uploadImageToLocal,
+  delete: deleteImageFromLocal,
+  list: listLocalImages,
+  // The web store only lives as long as the page
+  listsAllUploads: usesFileSystem(),
+  getUrl: async (publicId) => {
+    if (usesFileSystem()) {
+      return `${LOCAL_UPLOADS_DIRECTORY}${publicId}`;
+    }
+    const stored = memoryStore.get(publicId);
+    if (!stored) {
+      throw new Error(`Local image ${publicId} not found`);
+    }
+    return stored.url;
+  },
+};
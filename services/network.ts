@@ -0,0 +1,14 @@
+import * as Network from 'expo-network';
+
+// Treats unknown reachability as online so uploads are attempted rather than parked forever
+export const isNetworkStateOnline = (state: Network.NetworkState): boolean =>
+  state.isConnected !== false && state.isInternetReachable !== false;
+
+export const isOnline = async (): Promise<boolean> => {
+  try {
+    return isNetworkStateOnline(await Network.getNetworkStateAsync());
+  } catch (error) {
+    console.error('Network state error:', error);
+    return true;
+  }
+};
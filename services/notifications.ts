@@ -0,0 +1,58 @@
+import { Platform } from 'react-native';
+import * as Notifications from 'expo-notifications';
+
+const UPLOADS_CHANNEL_ID = 'uploads';
+
+// Notifications are only posted while the app is in the background, but if one arrives just as
+// the app returns to the foreground it is still shown
+Notifications.setNotificationHandler({
+  handleNotification: async () => ({
+    shouldShowBanner: true,
+    shouldShowList: true,
+    shouldPlaySound: false,
+    shouldSetBadge: false,
+  }),
+});
+
+// Local notifications need a native module; on web the in-app toasts are used instead
+export const areNotificationsSupported = () => Platform.OS !== 'web';
+
+let channelReady: Promise<unknown> | null = null;
+
+const ensureChannel = () => {
+  if (Platform.OS !== 'android') return Promise.resolve();
+  channelReady ??= Notifications.setNotificationChannelAsync(UPLOADS_CHANNEL_ID, {
+    name: 'Uploads',
+    importance: Notifications.AndroidImportance.DEFAULT,
+  });
+  return channelReady;
+};
+
+// Asks for permission when it hasn't been refused for good; resolves to whether notifications can be shown
+export const ensureNotificationPermission = async (): Promise<boolean> => {
+  if (!areNotificationsSupported()) return false;
+
+  try {
+    const current = await Notifications.getPermissionsAsync();
+    if (current.granted) return true;
+    if (!current.canAskAgain) return false;
+    return (await Notifications.requestPermissionsAsync()).granted;
+  } catch (error) {
+    console.error('Notification permission error:', error);
+    return false;
+  }
+};
+
+export const sendLocalNotification = async (title: string, body: string): Promise<void> => {
+  if (!(await ensureNotificationPermission())) return;
+
+  try {
+    await ensureChannel();
+    await Notifications.scheduleNotificationAsync({
+      content: { title, body },
+      trigger: Platform.OS === 'android' ? { channelId: UPLOADS_CHANNEL_ID } : null,
+    });
+  } catch (error) {
+    console.error('Notification error:', error);
+  }
+};
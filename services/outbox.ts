@@ -0,0 +1,37 @@
+import { Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+
+// Files waiting in the outbox are copied here on native: picker and camera URIs point into
+// caches the OS may purge before connectivity returns. On web the data URL itself is persisted.
+export const OUTBOX_DIRECTORY = FileSystem.documentDirectory
+  ? `${FileSystem.documentDirectory}outbox/`
+  : null;
+
+const usesFileSystem = () => Platform.OS !== 'web' && OUTBOX_DIRECTORY !== null;
+
+export const persistOutboxFile = async (uri: string, fileName: string): Promise<string> => {
+  if (!usesFileSystem() || uri.startsWith(OUTBOX_DIRECTORY!)) {
+    return uri;
+  }
+
+  const info = await FileSystem.getInfoAsync(OUTBOX_DIRECTORY!);
+  if (!info.exists) {
+    await FileSystem.makeDirectoryAsync(OUTBOX_DIRECTORY!, { intermediates: true });
+  }
+
+  const target = `${OUTBOX_DIRECTORY}${Date.now()}_${fileName}`;
+  await FileSystem.copyAsync({ from: uri, to: target });
+  return target;
+};
+
+export const discardOutboxFile = async (uri: string): Promise<void> => {
+  if (!usesFileSystem() || !uri.startsWith(OUTBOX_DIRECTORY!)) {
+    return;
+  }
+
+  try {
+    await FileSystem.deleteAsync(uri, { idempotent: true });
+  } catch (error) {
+    console.error('Outbox cleanup error:', error);
+  }
+};
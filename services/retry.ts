@@ -0,0 +1,89 @@
+export interface RetryPolicy {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  retryableStatusCodes: number[];
+}
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+  maxAttempts: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 15000,
+  retryableStatusCodes: [408, 425, 429, 500, 502, 503, 504],
+};
+
+// Carries enough detail about a failed request for the retry layer to decide whether to try again.
+// `status` is the HTTP status when there was a response; `network` marks failures without one.
+export class UploadError extends Error {
+  status?: number;
+  network: boolean;
+  cancelled: boolean;
+
+  constructor(
+    message: string,
+    { status, network = false, cancelled = false }: { status?: number; network?: boolean; cancelled?: boolean } = {}
+  ) {
+    super(message);
+    this.name = 'UploadError';
+    this.status = status;
+    this.network = network;
+    this.cancelled = cancelled;
+  }
+}
+
+export const isRetryableError = (error: unknown, policy: RetryPolicy = DEFAULT_RETRY_POLICY): boolean => {
+  if (!(error instanceof UploadError) || error.cancelled) return false;
+  if (error.network) return true;
+  return error.status !== undefined && policy.retryableStatusCodes.includes(error.status);
+};
+
+// Exponential backoff with full jitter: a random delay between 0 and base * 2^(attempt - 1), capped
+export const getBackoffDelay = (attempt: number, policy: RetryPolicy = DEFAULT_RETRY_POLICY): number => {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+  return Math.round(Math.random() * ceiling);
+};
+
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new UploadError('Upload cancelled', { cancelled: true }));
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new UploadError('Upload cancelled', { cancelled: true }));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort);
+  });
+
+export interface RetryOptions {
+  policy?: Partial<RetryPolicy>;
+  signal?: AbortSignal;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+// Runs `operation` until it succeeds, fails with a non-retryable error or runs out of attempts.
+// The attempt number (starting at 1) is passed through so callers can resume instead of restarting.
+export const withRetry = async <T>(
+  operation: (attempt: number) => Promise<T>,
+  { policy: overrides, signal, onRetry }: RetryOptions = {}
+): Promise<T> => {
+  const policy = { ...DEFAULT_RETRY_POLICY, ...overrides };
+
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await operation(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || signal?.aborted || !isRetryableError(error, policy)) {
+        throw error;
+      }
+      const delay = getBackoffDelay(attempt, policy);
+      onRetry?.(attempt + 1, delay, error);
+      await wait(delay, signal);
+    }
+  }
+};
@@ -0,0 +1,83 @@
+import { firebaseStorageProvider } from './firebase';
+import { cloudinaryStorageProvider } from './cloudinary';
+import { localStorageProvider } from './local';
+import type { RetryPolicy } from './retry';
+
+export type StorageProviderId = 'firebase' | 'cloudinary' | 'local';
+
+export interface UploadProgress {
+  bytesTransferred: number;
+  totalBytes: number;
+}
+
+export interface UploadOptions {
+  mimeType?: string;
+  // Album folder (see toAlbumFolder) the file is stored under, and tags saved with it
+  album?: string;
+  tags?: string[];
+  onProgress?: (progress: UploadProgress) => void;
+  signal?: AbortSignal;
+  retryPolicy?: Partial<RetryPolicy>;
+  onRetry?: (attempt: number, delayMs: number, error: unknown) => void;
+}
+
+export interface UploadResult {
+  url: string;
+  publicId: string;
+  provider: StorageProviderId;
+  bytes?: number;
+  width?: number;
+  height?: number;
+  format?: string;
+  createdAt: string;
+  deleteToken?: string;
+  thumbnailUrl?: string;
+}
+
+export interface DeleteOptions {
+  deleteToken?: string;
+}
+
+export interface StoredObject {
+  url: string;
+  publicId: string;
+  bytes?: number;
+  createdAt?: string;
+  thumbnailUrl?: string;
+  album?: string;
+  tags?: string[];
+}
+
+export interface UrlOptions {
+  width?: number;
+  height?: number;
+}
+
+// Common contract implemented by every upload backend
+export interface StorageProvider {
+  id: StorageProviderId;
+  name: string;
+  upload: (imageUri: string, fileName: string, options?: UploadOptions) => Promise<UploadResult>;
+  delete: (publicId: string, options?: DeleteOptions) => Promise<void>;
+  list: () => Promise<StoredObject[]>;
+  // False when list() can't see everything uploaded in earlier sessions, so syncing must not
+  // drop library records it finds missing
+  listsAllUploads?: boolean;
+  getUrl: (publicId: string, options?: UrlOptions) => Promise<string>;
+  // Providers that can't change an uploaded file's tags leave this out; edits then stay in the library
+  updateTags?: (publicId: string, tags: string[]) => Promise<void>;
+}
+
+const providers: Record<StorageProviderId, StorageProvider> = {
+  firebase: firebaseStorageProvider,
+  cloudinary: cloudinaryStorageProvider,
+  local: localStorageProvider,
+};
+
+export const DEFAULT_STORAGE_PROVIDER: StorageProviderId = 'firebase';
+
+export const getStorageProvider = (id: StorageProviderId): StorageProvider => {
+  return providers[id] ?? providers[DEFAULT_STORAGE_PROVIDER];
+};
+
+export const getStorageProviders = (): StorageProvider[] => Object.values(providers);
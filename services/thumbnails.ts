@@ -0,0 +1,28 @@
+import { PixelRatio } from 'react-native';
+import type { LibraryImage } from '@/stores/imageLibrary';
+import { getOptimizedImageUrl } from './cloudinary';
+
+// Sizes are rounded up to this step so nearby layouts share a cached rendition
+const SIZE_STEP = 50;
+const MAX_DPR = 3;
+
+const toStep = (size: number) => Math.ceil(size / SIZE_STEP) * SIZE_STEP;
+
+// Picks the smallest rendition that still looks sharp at `width` × `height` points on this screen.
+// Cloudinary renders it on demand; Firebase images use the thumbnail stored at upload time; local
+// images are already on the device.
+export const getThumbnailUrl = (image: LibraryImage, width: number, height = width): string => {
+  switch (image.provider) {
+    case 'cloudinary':
+      return getOptimizedImageUrl(image.publicId, {
+        width: toStep(width),
+        height: toStep(height),
+        crop: 'fill',
+        dpr: Math.min(PixelRatio.get(), MAX_DPR),
+      });
+    case 'firebase':
+      return image.thumbnailUrl ?? image.url;
+    default:
+      return image.url;
+  }
+};
@@ -0,0 +1,203 @@
+import { Image, Platform } from 'react-native';
+import * as FileSystem from 'expo-file-system';
+import type { StorageProviderId } from './storage';
+
+export interface ValidationLimits {
+  maxBytes: number;
+  allowedMimeTypes: string[];
+  maxWidth: number;
+  maxHeight: number;
+  maxPixels: number;
+}
+
+const MB = 1024 * 1024;
+
+const DEFAULT_LIMITS: ValidationLimits = {
+  maxBytes: 10 * MB,
+  allowedMimeTypes: ['image/jpeg', 'image/png', 'image/gif'],
+  maxWidth: 8192,
+  maxHeight: 8192,
+  maxPixels: 40_000_000,
+};
+
+// Cloudinary's free plan caps images at 10MB and 25 megapixels; the local provider only
+// stores files on the device, so it accepts larger images and WebP.
+export const PROVIDER_LIMITS: Record<StorageProviderId, ValidationLimits> = {
+  firebase: DEFAULT_LIMITS,
+  cloudinary: { ...DEFAULT_LIMITS, maxPixels: 25_000_000 },
+  local: {
+    ...DEFAULT_LIMITS,
+    maxBytes: 50 * MB,
+    allowedMimeTypes: [...DEFAULT_LIMITS.allowedMimeTypes, 'image/webp'],
+  },
+};
+
+export const getValidationLimits = (providerId: StorageProviderId): ValidationLimits =>
+  PROVIDER_LIMITS[providerId] ?? DEFAULT_LIMITS;
+
+const MIME_LABELS: Record<string, string> = {
+  'image/jpeg': 'JPG',
+  'image/png': 'PNG',
+  'image/gif': 'GIF',
+  'image/webp': 'WebP',
+  'image/heic': 'HEIC',
+  'image/bmp': 'BMP',
+  'image/tiff': 'TIFF',
+};
+
+export const formatMimeType = (mimeType: string) => MIME_LABELS[mimeType] ?? mimeType;
+
+export const describeLimits = (limits: ValidationLimits) =>
+  `Supports ${limits.allowedMimeTypes.map(formatMimeType).join(', ')} up to ${Math.round(limits.maxBytes / MB)}MB`;
+
+const HEADER_LENGTH = 16;
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0) =>
+  signature.every((byte, index) => bytes[offset + index] === byte);
+
+// Identifies the image format from its leading bytes rather than trusting the file name
+export const detectMimeType = (bytes: Uint8Array): string | null => {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return 'image/jpeg';
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return 'image/png';
+  if (startsWith(bytes, [0x47, 0x49, 0x46, 0x38])) return 'image/gif';
+  if (startsWith(bytes, [0x52, 0x49, 0x46, 0x46]) && startsWith(bytes, [0x57, 0x45, 0x42, 0x50], 8)) return 'image/webp';
+  if (startsWith(bytes, [0x42, 0x4d])) return 'image/bmp';
+  if (startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a])) return 'image/tiff';
+  if (startsWith(bytes, [0x66, 0x74, 0x79, 0x70], 4)) {
+    const brand = String.fromCharCode(...bytes.slice(8, 12));
+    if (['heic', 'heix', 'mif1', 'msf1', 'heif'].includes(brand)) return 'image/heic';
+  }
+  return null;
+};
+
+export const decodeBase64 = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+};
+
+// Chunked so large files don't exceed the engine's argument limit
+export const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let i = 0; i < bytes.length; i += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + CHUNK));
+  }
+  return btoa(binary);
+};
+
+// The reason a file of `bytes` is too large, or null when it fits
+export const checkFileSize = (bytes: number, limits: ValidationLimits): string | null =>
+  bytes > limits.maxBytes
+    ? `File is ${(bytes / MB).toFixed(1)}MB; the limit is ${Math.round(limits.maxBytes / MB)}MB`
+    : null;
+
+interface FileProbe {
+  header: Uint8Array;
+  bytes: number;
+}
+
+// Reads the first bytes and total size of a data URL, a web (blob/http) URL or a native file URI
+export const probeFile = async (uri: string, length = HEADER_LENGTH): Promise<FileProbe> => {
+  if (uri.startsWith('data:')) {
+    const base64 = uri.slice(uri.indexOf(',') + 1);
+    const padding = base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0;
+    return {
+      header: decodeBase64(base64.slice(0, Math.ceil(length / 3) * 4)),
+      bytes: Math.floor((base64.length * 3) / 4) - padding,
+    };
+  }
+
+  if (Platform.OS === 'web') {
+    const blob = await (await fetch(uri)).blob();
+    return {
+      header: new Uint8Array(await blob.slice(0, length).arrayBuffer()),
+      bytes: blob.size,
+    };
+  }
+
+  const [base64, info] = await Promise.all([
+    FileSystem.readAsStringAsync(uri, {
+      encoding: FileSystem.EncodingType.Base64,
+      position: 0,
+      length,
+    }),
+    FileSystem.getInfoAsync(uri),
+  ]);
+  return {
+    header: decodeBase64(base64),
+    bytes: info.exists ? info.size : 0,
+  };
+};
+
+export interface ValidationRequest {
+  uri: string;
+  fileName: string;
+  width?: number;
+  height?: number;
+}
+
+export interface ValidationResult {
+  fileName: string;
+  valid: boolean;
+  reasons: string[];
+  mimeType?: string;
+  bytes?: number;
+  width?: number;
+  height?: number;
+}
+
+export const validateImage = async (
+  request: ValidationRequest,
+  limits: ValidationLimits
+): Promise<ValidationResult> => {
+  let probe: FileProbe;
+  try {
+    probe = await probeFile(request.uri);
+  } catch (error) {
+    console.error('File validation error:', error);
+    return { fileName: request.fileName, valid: false, reasons: ['File could not be read'] };
+  }
+
+  const reasons: string[] = [];
+  const mimeType = detectMimeType(probe.header);
+
+  if (!mimeType) {
+    reasons.push('Not a recognised image file');
+  } else if (!limits.allowedMimeTypes.includes(mimeType)) {
+    reasons.push(`${formatMimeType(mimeType)} files are not supported`);
+  }
+
+  const sizeError = checkFileSize(probe.bytes, limits);
+  if (sizeError) {
+    reasons.push(sizeError);
+  }
+
+  const { width, height } = request.width && request.height
+    ? { width: request.width, height: request.height }
+    : mimeType
+      ? await Image.getSize(request.uri).catch(() => ({ width: undefined, height: undefined }))
+      : { width: undefined, height: undefined };
+
+  if (width && height) {
+    if (width > limits.maxWidth || height > limits.maxHeight) {
+      reasons.push(`${width}×${height} exceeds the ${limits.maxWidth}×${limits.maxHeight} maximum`);
+    }
+    if (width * height > limits.maxPixels) {
+      reasons.push(`${((width * height) / 1_000_000).toFixed(1)} megapixels exceeds the ${limits.maxPixels / 1_000_000} megapixel limit`);
+    }
+  }
+
+  return {
+    fileName: request.fileName,
+    valid: reasons.length === 0,
+    reasons,
+    mimeType: mimeType ?? undefined,
+    bytes: probe.bytes,
+    width,
+    height,
+  };
+};
@@ -0,0 +1,71 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { toAlbumFolder, RESERVED_ALBUM_FOLDERS } from '@/utils/albums';
+
+export interface Album {
+  // Storage folder name, see toAlbumFolder()
+  id: string;
+  name: string;
+  createdAt: string;
+}
+
+interface AlbumsState {
+  albums: Album[];
+  // Where new uploads go, and the tags they are given; null uploads outside any album
+  uploadAlbumId: string | null;
+  uploadTags: string[];
+  createAlbum: (name: string) => Album | null;
+  removeAlbum: (id: string) => void;
+  mergeAlbums: (albums: Album[]) => void;
+  setUploadAlbum: (id: string | null) => void;
+  setUploadTags: (tags: string[]) => void;
+}
+
+export const useAlbumsStore = create<AlbumsState>()(
+  persist(
+    (set, get) => ({
+      albums: [],
+      uploadAlbumId: null,
+      uploadTags: [],
+      // Returns the existing album when the name maps to a folder that is already in use, and null
+      // when the name can't be used as a folder
+      createAlbum: (name) => {
+        const id = toAlbumFolder(name);
+        if (!id || RESERVED_ALBUM_FOLDERS.includes(id)) return null;
+
+        const existing = get().albums.find((album) => album.id === id);
+        if (existing) return existing;
+
+        const album: Album = { id, name: name.trim(), createdAt: new Date().toISOString() };
+        set((state) => ({ albums: [...state.albums, album] }));
+        return album;
+      },
+      // Only forgets the album; images already uploaded stay in its storage folder
+      removeAlbum: (id) =>
+        set((state) => ({
+          albums: state.albums.filter((album) => album.id !== id),
+          uploadAlbumId: state.uploadAlbumId === id ? null : state.uploadAlbumId,
+        })),
+      // Adds albums from an imported archive that aren't known yet
+      mergeAlbums: (albums) =>
+        set((state) => ({
+          albums: [
+            ...state.albums,
+            ...albums.filter((album) => !state.albums.some((existing) => existing.id === album.id)),
+          ],
+        })),
+      setUploadAlbum: (uploadAlbumId) => set({ uploadAlbumId }),
+      setUploadTags: (uploadTags) => set({ uploadTags }),
+    }),
+    {
+      name: 'albums',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ albums: state.albums, uploadAlbumId: state.uploadAlbumId }),
+    }
+  )
+);
+
+// Display name for an album folder, including folders found in storage that were created elsewhere
+export const getAlbumName = (albums: Album[], id: string) =>
+  albums.find((album) => album.id === id)?.name ?? id;
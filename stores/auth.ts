@@ -0,0 +1,15 @@
+import { create } from 'zustand';
+import type { AuthUser } from '@/services/auth';
+
+// Mirrors Firebase's auth state for components; Firebase itself persists the session
+interface AuthState {
+  user: AuthUser | null;
+  initializing: boolean;
+  setUser: (user: AuthUser | null) => void;
+}
+
+export const useAuthStore = create<AuthState>()((set) => ({
+  user: null,
+  initializing: true,
+  setUser: (user) => set({ user, initializing: false }),
+}));
@@ -0,0 +1,54 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import type { BackupBlocker } from '@/services/autoBackup';
+
+// Enough to cover photos picked by hand around the sync cursor; older ones are never scanned again
+const MAX_UPLOADED_ASSETS = 500;
+
+interface AutoBackupState {
+  // Creation time of the newest library photo already handled; null until Auto Upload is first enabled
+  syncedUntil: number | null;
+  // Library assets that have been uploaded, whether by backup or picked on the Upload tab
+  uploadedAssetIds: string[];
+  lastCheckedAt: string | null;
+  scanning: boolean;
+  blocker: BackupBlocker | null;
+  start: () => void;
+  advance: (syncedUntil: number) => void;
+  markUploaded: (assetIds: string[]) => void;
+  setScanning: (scanning: boolean) => void;
+  setBlocker: (blocker: BackupBlocker | null) => void;
+}
+
+export const useAutoBackupStore = create<AutoBackupState>()(
+  persist(
+    (set, get) => ({
+      syncedUntil: null,
+      uploadedAssetIds: [],
+      lastCheckedAt: null,
+      scanning: false,
+      blocker: null,
+      // Only photos taken from now on are backed up, not the whole existing library
+      start: () => {
+        if (get().syncedUntil === null) set({ syncedUntil: Date.now() });
+      },
+      advance: (syncedUntil) =>
+        set((state) => ({
+          syncedUntil: Math.max(state.syncedUntil ?? 0, syncedUntil),
+          lastCheckedAt: new Date().toISOString(),
+        })),
+      markUploaded: (assetIds) =>
+        set((state) => ({
+          uploadedAssetIds: Array.from(new Set([...state.uploadedAssetIds, ...assetIds])).slice(-MAX_UPLOADED_ASSETS),
+        })),
+      setScanning: (scanning) => set({ scanning }),
+      setBlocker: (blocker) => set({ blocker }),
+    }),
+    {
+      name: 'auto-backup',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: ({ syncedUntil, uploadedAssetIds, lastCheckedAt }) => ({ syncedUntil, uploadedAssetIds, lastCheckedAt }),
+    }
+  )
+);
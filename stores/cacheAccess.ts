@@ -0,0 +1,41 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { isCachedFile } from '@/services/cache';
+
+// Enough to cover every file the largest cache limit holds; files no longer tracked fall back
+// to when they were written
+const MAX_TRACKED_FILES = 1000;
+// A file shown again within this window keeps its timestamp, so scrolling doesn't rewrite storage
+const ACCESS_RESOLUTION_MS = 60 * 1000;
+
+interface CacheAccessState {
+  // When each cached file was last shown, so the size limit evicts the least recently used
+  usedAt: Record<string, number>;
+  markUsed: (uri: string) => void;
+}
+
+export const useCacheAccessStore = create<CacheAccessState>()(
+  persist(
+    (set, get) => ({
+      usedAt: {},
+      markUsed: (uri) => {
+        const now = Date.now();
+        if (!isCachedFile(uri) || now - (get().usedAt[uri] ?? 0) < ACCESS_RESOLUTION_MS) return;
+        set((state) => ({
+          usedAt: Object.fromEntries(
+            Object.entries({ ...state.usedAt, [uri]: now })
+              .sort(([, a], [, b]) => b - a)
+              .slice(0, MAX_TRACKED_FILES)
+          ),
+        }));
+      },
+    }),
+    {
+      name: 'cache-access',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+export const markCacheUsed = (uri: string) => useCacheAccessStore.getState().markUsed(uri);
@@ -0,0 +1,40 @@
+import { create } from 'zustand';
+
+export interface Choice {
+  label: string;
+  subtitle?: string;
+  selected?: boolean;
+  destructive?: boolean;
+  onPress: () => void;
+}
+
+export interface ChoiceSheet {
+  title: string;
+  message?: string;
+  choices: Choice[];
+}
+
+interface ChoiceSheetState {
+  sheet: ChoiceSheet | null;
+  show: (sheet: ChoiceSheet) => void;
+  dismiss: () => void;
+}
+
+export const useChoiceSheetStore = create<ChoiceSheetState>()((set) => ({
+  sheet: null,
+  show: (sheet) => set({ sheet }),
+  dismiss: () => set({ sheet: null }),
+}));
+
+// In-app replacement for multi-button Alert.alert calls, which do nothing on the web and are
+// cut to three buttons on Android; a Cancel row is always added
+export const showChoices = (title: string, message: string | undefined, choices: Choice[]) =>
+  useChoiceSheetStore.getState().show({ title, message, choices });
+
+export const confirmAction = (
+  title: string,
+  message: string,
+  actionLabel: string,
+  onConfirm: () => void,
+  { destructive = false }: { destructive?: boolean } = {}
+) => showChoices(title, message, [{ label: actionLabel, destructive, onPress: onConfirm }]);
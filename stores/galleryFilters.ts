@@ -0,0 +1,23 @@
+import { create } from 'zustand';
+import { DEFAULT_FILTERS, GalleryFilters, SortOption } from '@/utils/imageFilters';
+
+// Shared so screens opened from the Gallery (e.g. the viewer) see the same filtered order
+interface GalleryFiltersState {
+  query: string;
+  filters: GalleryFilters;
+  sort: SortOption;
+  setQuery: (query: string) => void;
+  setFilters: (filters: Partial<GalleryFilters>) => void;
+  setSort: (sort: SortOption) => void;
+  reset: () => void;
+}
+
+export const useGalleryFiltersStore = create<GalleryFiltersState>()((set) => ({
+  query: '',
+  filters: DEFAULT_FILTERS,
+  sort: 'newest',
+  setQuery: (query) => set({ query }),
+  setFilters: (filters) => set((state) => ({ filters: { ...state.filters, ...filters } })),
+  setSort: (sort) => set({ sort }),
+  reset: () => set({ query: '', filters: DEFAULT_FILTERS, sort: 'newest' }),
+}));
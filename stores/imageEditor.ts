@@ -0,0 +1,16 @@
+import { create } from 'zustand';
+import type { UploadRequest } from './uploadQueue';
+
+// Hands the picked image to the editor route. Kept out of the route params because web
+// picks are data URLs, which are far too long to put in a URL.
+interface ImageEditorState {
+  source: UploadRequest | null;
+  open: (source: UploadRequest) => void;
+  close: () => void;
+}
+
+export const useImageEditorStore = create<ImageEditorState>()((set) => ({
+  source: null,
+  open: (source) => set({ source }),
+  close: () => set({ source: null }),
+}));
@@ -0,0 +1,244 @@
+import { useMemo } from 'react';
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { getStorageProvider } from '@/services/storage';
+import type { StorageProvider, StorageProviderId, StoredObject, UploadResult } from '@/services/storage';
+import type { ExifData } from '@/services/exif';
+import { getCurrentUserId } from '@/services/auth';
+import { useAuthStore } from './auth';
+
+export interface LibraryImage {
+  id: string;
+  url: string;
+  name: string;
+  provider: StorageProviderId;
+  publicId: string;
+  bytes?: number;
+  originalBytes?: number;
+  width?: number;
+  height?: number;
+  format?: string;
+  uploadedAt: string;
+  tags?: string[];
+  // Storage folder of the album the image was uploaded to, see stores/albums
+  album?: string;
+  deleteToken?: string;
+  thumbnailUrl?: string;
+  ownerId?: string;
+  exif?: ExifData;
+}
+
+interface ImageLibraryState {
+  images: LibraryImage[];
+  pendingDeletion: LibraryImage[];
+  deletionError: string | null;
+  addImage: (image: LibraryImage) => void;
+  importImages: (images: LibraryImage[]) => number;
+  removeImage: (id: string) => void;
+  updateTags: (id: string, tags: string[]) => Promise<void>;
+  deleteImages: (ids: string[]) => void;
+  undoDelete: () => void;
+  clearDeletionError: () => void;
+  syncWithProvider: (provider: StorageProvider) => Promise<void>;
+}
+
+// How long a delete can be undone before the files are removed from the provider
+export const UNDO_WINDOW_MS = 5000;
+
+let deletionTimer: ReturnType<typeof setTimeout> | null = null;
+
+export const createLibraryImage = (
+  result: UploadResult,
+  name: string,
+  details: {
+    width?: number;
+    height?: number;
+    originalBytes?: number;
+    exif?: ExifData;
+    album?: string;
+    tags?: string[];
+  } = {}
+): LibraryImage => ({
+  id: `${result.provider}:${result.publicId}`,
+  url: result.url,
+  name,
+  provider: result.provider,
+  publicId: result.publicId,
+  bytes: result.bytes,
+  originalBytes: details.originalBytes,
+  width: result.width ?? details.width,
+  height: result.height ?? details.height,
+  format: result.format,
+  uploadedAt: result.createdAt,
+  deleteToken: result.deleteToken,
+  thumbnailUrl: result.thumbnailUrl,
+  ownerId: getCurrentUserId() ?? undefined,
+  exif: details.exif,
+  album: details.album,
+  tags: details.tags?.length ? details.tags : undefined,
+});
+
+// Images uploaded before accounts existed have no owner and stay visible to everyone
+export const isVisibleTo = (image: LibraryImage, uid: string | null) => !image.ownerId || image.ownerId === uid;
+
+// Fills in details a record is missing (e.g. it was uploaded before thumbnails or albums existed)
+const fillFromRemote = (image: LibraryImage, remote?: StoredObject): LibraryImage => {
+  if (!remote) return image;
+  const missing = {
+    thumbnailUrl: image.thumbnailUrl ? undefined : remote.thumbnailUrl,
+    album: image.album ? undefined : remote.album,
+    tags: image.tags || !remote.tags?.length ? undefined : remote.tags,
+  };
+  const changes = Object.fromEntries(Object.entries(missing).filter(([, value]) => value !== undefined));
+  return Object.keys(changes).length > 0 ? { ...image, ...changes } : image;
+};
+
+const byNewest = (a: LibraryImage, b: LibraryImage) =>
+  new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime();
+
+export const useImageLibraryStore = create<ImageLibraryState>()(
+  persist(
+    (set, get) => {
+      // Deletes the batch from its providers; images that fail are put back into the library
+      const commitDeletion = async () => {
+        deletionTimer = null;
+        const batch = get().pendingDeletion;
+        set({ pendingDeletion: [] });
+        if (batch.length === 0) return;
+
+        const results = await Promise.allSettled(
+          batch.map((img) => getStorageProvider(img.provider).delete(img.publicId, { deleteToken: img.deleteToken }))
+        );
+        const failed = batch.filter((_, index) => results[index].status === 'rejected');
+        if (failed.length > 0) {
+          const { reason } = results.find((result) => result.status === 'rejected') as PromiseRejectedResult;
+          const message = reason instanceof Error ? reason.message : 'Unknown error';
+          set((state) => ({
+            images: [...failed, ...state.images].sort(byNewest),
+            deletionError: `${failed.length} of ${batch.length} could not be deleted: ${message}`,
+          }));
+        }
+      };
+
+      return {
+        images: [],
+        pendingDeletion: [],
+        deletionError: null,
+        addImage: (image) =>
+          set((state) => ({
+            images: [image, ...state.images.filter((img) => img.id !== image.id)],
+          })),
+        // Adds records restored from an export, skipping any the library already has
+        importImages: (images) => {
+          const known = new Set([...get().images, ...get().pendingDeletion].map((img) => img.id));
+          const added = images.filter((img) => !known.has(img.id));
+          if (added.length > 0) {
+            set((state) => ({ images: [...added, ...state.images].sort(byNewest) }));
+          }
+          return added.length;
+        },
+        removeImage: (id) =>
+          set((state) => ({ images: state.images.filter((img) => img.id !== id) })),
+        // Saves the tags locally straight away and on the provider where it supports it
+        updateTags: async (id, tags) => {
+          const image = get().images.find((img) => img.id === id);
+          if (!image) return;
+
+          const setTags = (value?: string[]) =>
+            set((state) => ({
+              images: state.images.map((img) => (img.id === id ? { ...img, tags: value } : img)),
+            }));
+          setTags(tags.length > 0 ? tags : undefined);
+          try {
+            await getStorageProvider(image.provider).updateTags?.(image.publicId, tags);
+          } catch (error) {
+            setTags(image.tags);
+            throw error;
+          }
+        },
+        // Hides the images straight away and deletes them remotely once the undo window has passed
+        deleteImages: (ids) => {
+          if (deletionTimer) {
+            clearTimeout(deletionTimer);
+            commitDeletion();
+          }
+          const targets = new Set(ids);
+          set((state) => ({
+            images: state.images.filter((img) => !targets.has(img.id)),
+            pendingDeletion: state.images.filter((img) => targets.has(img.id)),
+            deletionError: null,
+          }));
+          deletionTimer = setTimeout(commitDeletion, UNDO_WINDOW_MS);
+        },
+        undoDelete: () => {
+          if (deletionTimer) {
+            clearTimeout(deletionTimer);
+            deletionTimer = null;
+          }
+          set((state) => ({
+            images: [...state.pendingDeletion, ...state.images].sort(byNewest),
+            pendingDeletion: [],
+          }));
+        },
+        clearDeletionError: () => set({ deletionError: null }),
+        // Reconciles the library with what the provider actually holds: remote objects missing
+        // locally are added, local records the provider no longer has are dropped (unless the
+        // provider can't list everything it has stored). Only the current user's records are
+        // dropped: the per-user listing never includes images uploaded before accounts existed.
+        syncWithProvider: async (provider) => {
+          const uid = getCurrentUserId();
+          const remote = await provider.list();
+          const remoteById = new Map(remote.map((object) => [object.publicId, object]));
+          const known = new Map(
+            [...get().images, ...get().pendingDeletion]
+              .filter((img) => img.provider === provider.id)
+              .map((img) => [img.publicId, img])
+          );
+
+          const discovered: LibraryImage[] = remote
+            .filter((object) => !known.has(object.publicId))
+            .map((object) => ({
+              id: `${provider.id}:${object.publicId}`,
+              url: object.url,
+              name: object.publicId.split('/').pop() ?? object.publicId,
+              provider: provider.id,
+              publicId: object.publicId,
+              bytes: object.bytes,
+              uploadedAt: object.createdAt ?? new Date().toISOString(),
+              thumbnailUrl: object.thumbnailUrl,
+              ownerId: uid ?? undefined,
+              album: object.album,
+              tags: object.tags?.length ? object.tags : undefined,
+            }));
+
+          set((state) => ({
+            images: [
+              ...discovered,
+              ...state.images
+                .filter((img) =>
+                  img.provider !== provider.id ||
+                  provider.listsAllUploads === false ||
+                  img.ownerId !== (uid ?? undefined) ||
+                  remoteById.has(img.publicId)
+                )
+                .map((img) => (img.provider === provider.id ? fillFromRemote(img, remoteById.get(img.publicId)) : img)),
+            ].sort(byNewest),
+          }));
+        },
+      };
+    },
+    {
+      name: 'image-library',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ images: state.images }),
+    }
+  )
+);
+
+// The library as the signed-in user sees it
+export const useUserImages = () => {
+  const images = useImageLibraryStore((state) => state.images);
+  const uid = useAuthStore((state) => state.user?.uid ?? null);
+  return useMemo(() => images.filter((image) => isVisibleTo(image, uid)), [images, uid]);
+};
@@ -0,0 +1,103 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { persistOutboxFile, discardOutboxFile } from '@/services/outbox';
+import type { ExifData } from '@/services/exif';
+
+export type OutboxStatus = 'pending' | 'sending';
+
+export interface OutboxEntry {
+  id: string;
+  uri: string;
+  fileName: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+  album?: string;
+  tags?: string[];
+  assetId?: string;
+  autoBackup?: boolean;
+  status: OutboxStatus;
+  createdAt: string;
+}
+
+export interface OutboxRequest {
+  uri: string;
+  fileName: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+  album?: string;
+  tags?: string[];
+  assetId?: string;
+  autoBackup?: boolean;
+}
+
+interface OutboxState {
+  entries: OutboxEntry[];
+  add: (request: OutboxRequest) => Promise<OutboxEntry>;
+  markPending: (id: string) => void;
+  markSending: (ids: string[]) => void;
+  complete: (id: string) => void;
+  release: (id: string) => void;
+  discard: (id: string) => void;
+  discardAll: () => void;
+}
+
+let nextId = 0;
+
+export const useOutboxStore = create<OutboxState>()(
+  persist(
+    (set, get) => ({
+      entries: [],
+      add: async (request) => {
+        const entry: OutboxEntry = {
+          ...request,
+          id: `outbox_${Date.now()}_${nextId++}`,
+          uri: await persistOutboxFile(request.uri, request.fileName),
+          status: 'pending',
+          createdAt: new Date().toISOString(),
+        };
+        set((state) => ({ entries: [...state.entries, entry] }));
+        return entry;
+      },
+      markPending: (id) =>
+        set((state) => ({
+          entries: state.entries.map((entry) => (entry.id === id ? { ...entry, status: 'pending' } : entry)),
+        })),
+      markSending: (ids) =>
+        set((state) => ({
+          entries: state.entries.map((entry) => (ids.includes(entry.id) ? { ...entry, status: 'sending' } : entry)),
+        })),
+      // Removes the entry once its upload has succeeded (or permanently failed) along with its copied file
+      complete: (id) => {
+        const entry = get().entries.find((candidate) => candidate.id === id);
+        if (entry) discardOutboxFile(entry.uri);
+        set((state) => ({ entries: state.entries.filter((candidate) => candidate.id !== id) }));
+      },
+      // Drops the entry but keeps its file, which is still referenced by a failed or cancelled upload
+      release: (id) =>
+        set((state) => ({ entries: state.entries.filter((candidate) => candidate.id !== id) })),
+      discard: (id) => get().complete(id),
+      discardAll: () => {
+        get().entries.forEach((entry) => discardOutboxFile(entry.uri));
+        set({ entries: [] });
+      },
+    }),
+    {
+      name: 'upload-outbox',
+      storage: createJSONStorage(() => AsyncStorage),
+      partialize: (state) => ({ entries: state.entries }),
+      // Entries that were mid-upload when the app was closed go back to waiting
+      merge: (persisted, current) => ({
+        ...current,
+        entries: ((persisted as Partial<OutboxState>)?.entries ?? []).map((entry) => ({
+          ...entry,
+          status: 'pending' as const,
+        })),
+      }),
+    }
+  )
+);
@@ -0,0 +1,108 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { CompressionOptions, DEFAULT_COMPRESSION } from '@/services/compression';
+import { CACHE_LIMIT_OPTIONS, DEFAULT_CACHE_LIMIT } from '@/services/cache';
+
+export type GalleryView = 'grid' | 'list';
+
+export interface Settings {
+  autoUpload: boolean;
+  wifiOnly: boolean;
+  chargingOnly: boolean;
+  highQuality: boolean;
+  compression: CompressionOptions;
+  stripMetadata: boolean;
+  uploadConcurrency: number;
+  cacheLimit: number;
+  notifications: boolean;
+  galleryView: GalleryView;
+}
+
+interface SettingsState extends Settings {
+  setAutoUpload: (autoUpload: boolean) => void;
+  setWifiOnly: (wifiOnly: boolean) => void;
+  setChargingOnly: (chargingOnly: boolean) => void;
+  setHighQuality: (highQuality: boolean) => void;
+  setCompression: (compression: Partial<CompressionOptions>) => void;
+  setStripMetadata: (stripMetadata: boolean) => void;
+  setUploadConcurrency: (uploadConcurrency: number) => void;
+  setCacheLimit: (cacheLimit: number) => void;
+  setNotifications: (notifications: boolean) => void;
+  setGalleryView: (galleryView: GalleryView) => void;
+  resetSettings: () => void;
+}
+
+export const DEFAULT_SETTINGS: Settings = {
+  autoUpload: false,
+  wifiOnly: true,
+  chargingOnly: false,
+  highQuality: true,
+  compression: DEFAULT_COMPRESSION,
+  stripMetadata: true,
+  uploadConcurrency: 2,
+  cacheLimit: DEFAULT_CACHE_LIMIT,
+  notifications: true,
+  galleryView: 'grid',
+};
+
+// Bump when the persisted shape changes and add a migration from the previous version
+const SETTINGS_VERSION = 1;
+
+type PersistedSettings = Partial<Settings> & Record<string, unknown>;
+
+// Each migration upgrades settings saved by the version before its key
+const migrations: Record<number, (settings: PersistedSettings) => PersistedSettings> = {
+  // Version 0 was saved without a version; compression options could be partial and the
+  // cache limit any number
+  1: (settings) => ({
+    ...settings,
+    compression: { ...DEFAULT_COMPRESSION, ...settings.compression },
+    cacheLimit: CACHE_LIMIT_OPTIONS.includes(settings.cacheLimit ?? 0) ? settings.cacheLimit : DEFAULT_CACHE_LIMIT,
+  }),
+};
+
+const migrateSettings = (persisted: unknown, version: number): Partial<Settings> => {
+  let settings = (persisted ?? {}) as PersistedSettings;
+  for (let next = version + 1; next <= SETTINGS_VERSION; next++) {
+    settings = migrations[next]?.(settings) ?? settings;
+  }
+  return settings;
+};
+
+export const useSettingsStore = create<SettingsState>()(
+  persist(
+    (set) => ({
+      ...DEFAULT_SETTINGS,
+      setAutoUpload: (autoUpload) => set({ autoUpload }),
+      setWifiOnly: (wifiOnly) => set({ wifiOnly }),
+      setChargingOnly: (chargingOnly) => set({ chargingOnly }),
+      setHighQuality: (highQuality) => set({ highQuality }),
+      setCompression: (compression) =>
+        set((state) => ({ compression: { ...state.compression, ...compression } })),
+      setStripMetadata: (stripMetadata) => set({ stripMetadata }),
+      setUploadConcurrency: (uploadConcurrency) =>
+        set({ uploadConcurrency: Math.max(1, Math.round(uploadConcurrency)) }),
+      setCacheLimit: (cacheLimit) => set({ cacheLimit }),
+      setNotifications: (notifications) => set({ notifications }),
+      setGalleryView: (galleryView) => set({ galleryView }),
+      resetSettings: () => set(DEFAULT_SETTINGS),
+    }),
+    {
+      name: 'settings',
+      storage: createJSONStorage(() => AsyncStorage),
+      version: SETTINGS_VERSION,
+      migrate: (persisted, version) => migrateSettings(persisted, version) as SettingsState,
+      // Settings added after a user's last save fall back to their defaults, including new
+      // compression options
+      merge: (persisted, current) => {
+        const settings = (persisted ?? {}) as PersistedSettings;
+        return {
+          ...current,
+          ...settings,
+          compression: { ...current.compression, ...settings.compression },
+        };
+      },
+    }
+  )
+);
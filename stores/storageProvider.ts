@@ -0,0 +1,37 @@
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import {
+  DEFAULT_STORAGE_PROVIDER,
+  getStorageProvider,
+  StorageProvider,
+  StorageProviderId,
+} from '@/services/storage';
+
+interface StorageProviderState {
+  providerId: StorageProviderId;
+  setProviderId: (providerId: StorageProviderId) => void;
+}
+
+export const useStorageProviderStore = create<StorageProviderState>()(
+  persist(
+    (set) => ({
+      providerId: DEFAULT_STORAGE_PROVIDER,
+      setProviderId: (providerId) => set({ providerId }),
+    }),
+    {
+      name: 'storage-provider',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
+
+// Resolves the provider currently selected in Settings
+export const useStorageProvider = (): StorageProvider => {
+  const providerId = useStorageProviderStore((state) => state.providerId);
+  return getStorageProvider(providerId);
+};
+
+export const getActiveStorageProvider = (): StorageProvider => {
+  return getStorageProvider(useStorageProviderStore.getState().providerId);
+};
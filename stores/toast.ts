@@ -0,0 +1,36 @@
+import { create } from 'zustand';
+
+export type ToastVariant = 'success' | 'error' | 'info';
+
+export interface Toast {
+  id: string;
+  title: string;
+  message?: string;
+  variant: ToastVariant;
+}
+
+interface ToastState {
+  toasts: Toast[];
+  show: (toast: Omit<Toast, 'id'>) => void;
+  dismiss: (id: string) => void;
+}
+
+const TOAST_DURATION_MS = 4000;
+// Older toasts are dropped rather than stacked up the screen
+const MAX_TOASTS = 3;
+
+let nextId = 0;
+
+export const useToastStore = create<ToastState>()((set, get) => ({
+  toasts: [],
+  show: (toast) => {
+    const id = `toast_${nextId++}`;
+    set((state) => ({ toasts: [...state.toasts, { ...toast, id }].slice(-MAX_TOASTS) }));
+    setTimeout(() => get().dismiss(id), TOAST_DURATION_MS);
+  },
+  dismiss: (id) => set((state) => ({ toasts: state.toasts.filter((toast) => toast.id !== id) })),
+}));
+
+// Non-blocking replacement for informational Alert.alert calls
+export const showToast = (title: string, message?: string, variant: ToastVariant = 'success') =>
+  useToastStore.getState().show({ title, message, variant });
@@ -0,0 +1,387 @@
+import { Image } from 'react-native';
+import { create } from 'zustand';
+import { getActiveStorageProvider } from './storageProvider';
+import { useImageLibraryStore, createLibraryImage } from './imageLibrary';
+import { useOutboxStore } from './outbox';
+import { UploadError } from '@/services/retry';
+import { isOnline } from '@/services/network';
+import { compressImage, renameForFormat } from '@/services/compression';
+import { getValidationLimits, validateImage, checkFileSize, probeFile, ValidationResult } from '@/services/validation';
+import { isConfigured } from '@/services/config';
+import { readExif, applyOrientation, needsOrientation, stripMetadata, withoutLocation, ExifData } from '@/services/exif';
+import { useSettingsStore } from './settings';
+import { useAlbumsStore } from './albums';
+import { useAutoBackupStore } from './autoBackup';
+
+// 'waiting' holds Auto Upload's photos while its Wi-Fi or charging condition isn't met; they are
+// neither in progress nor finished
+export type UploadStatus = 'queued' | 'processing' | 'uploading' | 'waiting' | 'done' | 'failed' | 'cancelled';
+
+export const isActiveStatus = (status: UploadStatus) =>
+  status === 'queued' || status === 'processing' || status === 'uploading';
+
+export const isFinishedStatus = (status: UploadStatus) =>
+  status === 'done' || status === 'failed' || status === 'cancelled';
+
+export interface UploadQueueItem {
+  id: string;
+  uri: string;
+  fileName: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+  album?: string;
+  tags?: string[];
+  assetId?: string;
+  autoBackup?: boolean;
+  // The compressed, oriented or stripped copy being uploaded in place of `uri`
+  processedUri?: string;
+  status: UploadStatus;
+  bytesTransferred: number;
+  totalBytes: number;
+  originalBytes?: number;
+  attempt: number;
+  outboxId?: string;
+  error?: string;
+}
+
+export interface UploadRequest {
+  uri: string;
+  fileName: string;
+  mimeType?: string;
+  width?: number;
+  height?: number;
+  exif?: ExifData;
+  album?: string;
+  tags?: string[];
+  // Device photo library asset the file was picked from, so Auto Upload doesn't send it again
+  assetId?: string;
+  // Submitted by Auto Upload, so held while its Wi-Fi and charging conditions aren't met
+  autoBackup?: boolean;
+  outboxId?: string;
+}
+
+interface UploadQueueState {
+  items: UploadQueueItem[];
+  rejections: ValidationResult[];
+  submit: (requests: UploadRequest[]) => Promise<void>;
+  clearRejections: () => void;
+  enqueue: (requests: UploadRequest[]) => void;
+  retry: (id: string) => void;
+  cancel: (id: string) => void;
+  remove: (id: string) => void;
+  clearFinished: () => void;
+}
+
+// Combined byte progress across the given items; totals stay 0 until a provider reports a size
+export const getQueueProgress = (items: UploadQueueItem[]) => {
+  const bytesTransferred = items.reduce((sum, item) => sum + item.bytesTransferred, 0);
+  const totalBytes = items.reduce((sum, item) => sum + item.totalBytes, 0);
+  return {
+    bytesTransferred,
+    totalBytes,
+    fraction: totalBytes > 0 ? Math.min(1, bytesTransferred / totalBytes) : 0,
+  };
+};
+
+// In-flight uploads, kept outside the store so abort controllers never end up in React state
+const controllers = new Map<string, AbortController>();
+
+let nextId = 0;
+const createItemId = () => `${Date.now()}_${nextId++}`;
+
+export const useUploadQueueStore = create<UploadQueueState>()((set, get) => {
+  const updateItem = (id: string, changes: Partial<UploadQueueItem>) =>
+    set((state) => ({
+      items: state.items.map((item) => (item.id === id ? { ...item, ...changes } : item)),
+    }));
+
+  const releaseOutboxEntry = (id: string) => {
+    const outboxId = get().items.find((item) => item.id === id)?.outboxId;
+    if (outboxId) useOutboxStore.getState().release(outboxId);
+  };
+
+  // Parks an item in the persisted outbox until connectivity returns
+  const moveToOutbox = async (item: UploadQueueItem) => {
+    const outbox = useOutboxStore.getState();
+    if (item.outboxId) {
+      outbox.markPending(item.outboxId);
+    } else {
+      await outbox.add({
+        uri: item.uri,
+        fileName: item.fileName,
+        mimeType: item.mimeType,
+        width: item.width,
+        height: item.height,
+        exif: item.exif,
+        album: item.album,
+        tags: item.tags,
+        assetId: item.assetId,
+        autoBackup: item.autoBackup,
+      });
+    }
+    set((state) => ({ items: state.items.filter((entry) => entry.id !== item.id) }));
+  };
+
+  // Applies the upload pipeline's client-side steps. With High Quality on the file is sent as picked,
+  // apart from being turned upright and having its location removed when those apply.
+  const preprocess = async (item: UploadQueueItem, signal: AbortSignal) => {
+    const source = {
+      uri: item.uri,
+      fileName: item.fileName,
+      mimeType: item.mimeType,
+      width: item.width,
+      height: item.height,
+      originalBytes: undefined as number | undefined,
+    };
+    const { highQuality, compression, stripMetadata: stripEnabled } = useSettingsStore.getState();
+    const orient = needsOrientation(item.exif);
+    const strip = stripEnabled && item.mimeType === 'image/jpeg';
+    if (highQuality && !orient && !strip) return source;
+
+    updateItem(item.id, { status: 'processing' });
+    try {
+      // Re-encoding applies the EXIF orientation and drops all metadata, so it covers every step
+      if (!highQuality) {
+        const compressed = await compressImage(source, compression);
+        if (signal.aborted) return source;
+        if (compressed) {
+          updateItem(item.id, { originalBytes: compressed.originalBytes, totalBytes: compressed.bytes });
+          return {
+            uri: compressed.uri,
+            fileName: renameForFormat(item.fileName, compression.format),
+            mimeType: compressed.mimeType,
+            width: compressed.width,
+            height: compressed.height,
+            originalBytes: compressed.originalBytes,
+          };
+        }
+      }
+      // Files sent without re-encoding (High Quality on, or GIFs and files compression couldn't
+      // shrink) still need turning upright and their location removed
+      if (orient) {
+        const oriented = await applyOrientation(item.uri);
+        return {
+          ...source,
+          uri: oriented.uri,
+          fileName: renameForFormat(item.fileName, 'jpeg'),
+          mimeType: 'image/jpeg',
+          width: oriented.width,
+          height: oriented.height,
+        };
+      }
+      if (strip) {
+        const stripped = await stripMetadata(item.uri);
+        if (stripped) return { ...source, uri: stripped };
+      }
+    } catch (error) {
+      // Processing is best-effort; the original is uploaded if it fails
+      console.error('Image processing error:', error);
+    } finally {
+      if (!signal.aborted) updateItem(item.id, { status: 'uploading' });
+    }
+    return source;
+  };
+
+  const runItem = async (item: UploadQueueItem) => {
+    const controller = new AbortController();
+    controllers.set(item.id, controller);
+    updateItem(item.id, { status: 'uploading', bytesTransferred: 0, attempt: 1, error: undefined });
+
+    try {
+      const online = await isOnline();
+      if (controller.signal.aborted) return;
+      if (!online) {
+        await moveToOutbox(item);
+        return;
+      }
+
+      const provider = getActiveStorageProvider();
+      if (!isConfigured(provider.id)) {
+        throw new UploadError(`${provider.name} is not configured`);
+      }
+
+      const source = await preprocess(item, controller.signal);
+      if (controller.signal.aborted) return;
+      if (source.uri !== item.uri) {
+        updateItem(item.id, { processedUri: source.uri });
+      }
+
+      // Oversized files pass validation when compression is on, but GIFs and files that don't
+      // get smaller are sent as they are
+      const sizeError = checkFileSize((await probeFile(source.uri)).bytes, getValidationLimits(provider.id));
+      if (sizeError) {
+        throw new UploadError(sizeError);
+      }
+
+      const result = await provider.upload(source.uri, source.fileName, {
+        mimeType: source.mimeType,
+        album: item.album,
+        tags: item.tags,
+        signal: controller.signal,
+        onProgress: ({ bytesTransferred, totalBytes }) => updateItem(item.id, { bytesTransferred, totalBytes }),
+        onRetry: (attempt) => updateItem(item.id, { attempt }),
+      });
+
+      // The file is at the provider once the upload resolves, so it is recorded even if the item
+      // was held or cancelled meanwhile; a run started since would only upload it again
+      if (controller.signal.aborted) controllers.get(item.id)?.abort();
+
+      // Providers that don't report dimensions (Firebase, local) fall back to the source image's size
+      const size = source.width && source.height
+        ? { width: source.width, height: source.height }
+        : await Image.getSize(source.uri).catch(() => ({}));
+      useImageLibraryStore.getState().addImage(
+        createLibraryImage(result, source.fileName, {
+          ...size,
+          originalBytes: source.originalBytes,
+          exif: item.exif,
+          album: item.album,
+          tags: item.tags,
+        })
+      );
+      const totalBytes = result.bytes ?? get().items.find((entry) => entry.id === item.id)?.totalBytes ?? 0;
+      updateItem(item.id, { status: 'done', bytesTransferred: totalBytes, totalBytes });
+      if (item.outboxId) useOutboxStore.getState().complete(item.outboxId);
+      if (item.assetId) useAutoBackupStore.getState().markUploaded([item.assetId]);
+    } catch (error) {
+      if (controller.signal.aborted) return;
+
+      if (error instanceof UploadError && error.network && !(await isOnline())) {
+        await moveToOutbox(item);
+        return;
+      }
+
+      // The file stays on disk for a manual retry; only the outbox entry is dropped
+      if (item.outboxId) useOutboxStore.getState().release(item.outboxId);
+      console.error('Upload error:', error);
+      updateItem(item.id, {
+        status: 'failed',
+        error: error instanceof Error ? error.message : 'Unknown error',
+      });
+    } finally {
+      // A held item may already be running again under a new controller
+      if (controllers.get(item.id) === controller) controllers.delete(item.id);
+      pump();
+    }
+  };
+
+  // Starts queued items until the concurrency limit is reached
+  const pump = () => {
+    const { items } = get();
+    const { uploadConcurrency } = useSettingsStore.getState();
+    const active = items.filter((item) => item.status === 'processing' || item.status === 'uploading').length;
+    const queued = items.filter((item) => item.status === 'queued');
+
+    queued.slice(0, Math.max(0, uploadConcurrency - active)).forEach((item) => {
+      runItem(item);
+    });
+  };
+
+  // Raising the limit in Settings starts waiting items straight away
+  useSettingsStore.subscribe((state, previous) => {
+    if (state.uploadConcurrency !== previous.uploadConcurrency) pump();
+  });
+
+  // Auto Upload's photos wait while its conditions aren't met, including ones already being sent,
+  // which are stopped; they are queued again once the conditions are met
+  useAutoBackupStore.subscribe((state, previous) => {
+    if (state.blocker === previous.blocker) return;
+    if (state.blocker) {
+      get().items
+        .filter((item) => item.autoBackup && isActiveStatus(item.status))
+        .forEach((item) => {
+          controllers.get(item.id)?.abort();
+          updateItem(item.id, { status: 'waiting', bytesTransferred: 0, originalBytes: undefined, processedUri: undefined });
+        });
+    } else {
+      set((current) => ({
+        items: current.items.map((item) => (item.status === 'waiting' ? { ...item, status: 'queued' } : item)),
+      }));
+      pump();
+    }
+  });
+
+  return {
+    items: [],
+    rejections: [],
+    // Entry point for new files: validates against the active provider's limits and only
+    // queues accepted files; rejected ones are kept with their reasons for the Upload tab
+    submit: async (requests) => {
+      const provider = getActiveStorageProvider();
+      if (!isConfigured(provider.id)) {
+        const reasons = [`${provider.name} is not configured — see Settings › Diagnostics`];
+        set({ rejections: requests.map(({ fileName }) => ({ fileName, valid: false, reasons })) });
+        return;
+      }
+
+      const { highQuality } = useSettingsStore.getState();
+      const providerLimits = getValidationLimits(provider.id);
+      // Oversized files are still accepted when compression is on, as they will be shrunk before upload
+      const limits = highQuality ? providerLimits : { ...providerLimits, maxBytes: Infinity };
+      const results = await Promise.all(requests.map((request) => validateImage(request, limits)));
+
+      const { stripMetadata: stripEnabled } = useSettingsStore.getState();
+      const { uploadAlbumId, uploadTags } = useAlbumsStore.getState();
+      // New files go to the album and get the tags chosen on the Upload tab
+      const valid = requests.flatMap((request, index) => {
+        const { valid, mimeType, width, height } = results[index];
+        if (!valid) return [];
+        return [{
+          ...request,
+          mimeType,
+          width,
+          height,
+          album: request.album ?? uploadAlbumId ?? undefined,
+          tags: request.tags ?? (uploadTags.length > 0 ? uploadTags : undefined),
+        }];
+      });
+      // Outbox entries already carry the metadata read when they were first picked
+      const accepted = await Promise.all(
+        valid.map(async (request) => {
+          const exif = request.exif ?? (request.mimeType === 'image/jpeg' ? await readExif(request.uri) : null);
+          return { ...request, exif: exif ? (stripEnabled ? withoutLocation(exif) : exif) : undefined };
+        })
+      );
+      set({ rejections: results.filter((result) => !result.valid) });
+      if (accepted.length > 0) {
+        get().enqueue(accepted);
+      }
+    },
+    clearRejections: () => set({ rejections: [] }),
+    enqueue: (requests) => {
+      const { blocker } = useAutoBackupStore.getState();
+      const items = requests.map<UploadQueueItem>((request) => ({
+        ...request,
+        id: createItemId(),
+        status: request.autoBackup && blocker ? 'waiting' : 'queued',
+        bytesTransferred: 0,
+        totalBytes: 0,
+        attempt: 0,
+      }));
+      set((state) => ({ items: [...state.items, ...items] }));
+      pump();
+    },
+    retry: (id) => {
+      updateItem(id, { status: 'queued', bytesTransferred: 0, originalBytes: undefined, error: undefined });
+      pump();
+    },
+    cancel: (id) => {
+      controllers.get(id)?.abort();
+      releaseOutboxEntry(id);
+      updateItem(id, { status: 'cancelled' });
+      pump();
+    },
+    remove: (id) => {
+      controllers.get(id)?.abort();
+      releaseOutboxEntry(id);
+      set((state) => ({ items: state.items.filter((item) => item.id !== id) }));
+      pump();
+    },
+    clearFinished: () =>
+      set((state) => ({
+        items: state.items.filter((item) => !isFinishedStatus(item.status)),
+      })),
+  };
+});
@@ -0,0 +1,6 @@
+import type { Persistence, ReactNativeAsyncStorage } from 'firebase/auth';
+
+// Only exported by the React Native build of firebase/auth, which the default types don't cover
+declare module 'firebase/auth' {
+  export function getReactNativePersistence(storage: ReactNativeAsyncStorage): Persistence;
+}
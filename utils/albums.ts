@@ -0,0 +1,22 @@
+// Album names are shown as typed; the folder they map to in storage is a slug of the name,
+// so "Summer Trip" and "summer trip" end up in the same `summer-trip/` folder.
+export const toAlbumFolder = (name: string) =>
+  name
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '');
+
+// Turns "Beach, #sunset  family" into ['beach', 'sunset', 'family']
+export const parseTags = (input: string): string[] =>
+  Array.from(
+    new Set(
+      input
+        .split(/[,\s]+/)
+        .map((tag) => tag.replace(/^#/, '').trim().toLowerCase())
+        .filter(Boolean)
+    )
+  );
+
+// Folders the providers use for their own files, and the gallery filter's "all" value
+export const RESERVED_ALBUM_FOLDERS = ['thumbnails', 'all'];
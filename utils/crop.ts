@@ -0,0 +1,73 @@
+// Crop rectangles are kept in fractions of the (rotated) image so they survive the preview
+// being rendered at a different resolution than the final output.
+export interface CropRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export type AspectPreset = 'free' | '1:1' | '4:3' | '16:9';
+
+export const ASPECT_PRESETS: Record<AspectPreset, number | null> = {
+  free: null,
+  '1:1': 1,
+  '4:3': 4 / 3,
+  '16:9': 16 / 9,
+};
+
+export const FULL_CROP: CropRect = { x: 0, y: 0, width: 1, height: 1 };
+
+export const MIN_CROP_FRACTION = 0.1;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+// The largest centred rectangle with the given pixel aspect ratio
+export const getInitialCrop = (ratio: number | null, imageWidth: number, imageHeight: number): CropRect => {
+  if (!ratio || !imageWidth || !imageHeight) return FULL_CROP;
+
+  const width = Math.min(1, (ratio * imageHeight) / imageWidth);
+  const height = Math.min(1, imageWidth / (ratio * imageHeight));
+  return { x: (1 - width) / 2, y: (1 - height) / 2, width, height };
+};
+
+export const moveCrop = (crop: CropRect, dx: number, dy: number): CropRect => ({
+  ...crop,
+  x: clamp(crop.x + dx, 0, 1 - crop.width),
+  y: clamp(crop.y + dy, 0, 1 - crop.height),
+});
+
+// Resizes from the bottom-right corner, holding the aspect ratio when one is set
+export const resizeCrop = (
+  crop: CropRect,
+  dx: number,
+  dy: number,
+  ratio: number | null,
+  imageWidth: number,
+  imageHeight: number
+): CropRect => {
+  let width = clamp(crop.width + dx, MIN_CROP_FRACTION, 1 - crop.x);
+  let height = clamp(crop.height + dy, MIN_CROP_FRACTION, 1 - crop.y);
+
+  if (ratio) {
+    const heightPerWidth = imageWidth / (ratio * imageHeight);
+    height = width * heightPerWidth;
+    if (height > 1 - crop.y) {
+      height = 1 - crop.y;
+      width = height / heightPerWidth;
+    }
+  }
+
+  return { ...crop, width, height };
+};
+
+export const toPixelCrop = (crop: CropRect, imageWidth: number, imageHeight: number) => {
+  const originX = Math.round(crop.x * imageWidth);
+  const originY = Math.round(crop.y * imageHeight);
+  return {
+    originX,
+    originY,
+    width: Math.min(imageWidth - originX, Math.round(crop.width * imageWidth)),
+    height: Math.min(imageHeight - originY, Math.round(crop.height * imageHeight)),
+  };
+};
@@ -0,0 +1,124 @@
+import type { LibraryImage } from '@/stores/imageLibrary';
+import type { StorageProviderId } from '@/services/storage';
+
+export type SortOption = 'newest' | 'oldest' | 'largest' | 'name';
+export type SizeRange = 'any' | 'small' | 'medium' | 'large';
+export type DateRange = 'any' | 'today' | 'week' | 'month' | 'year';
+
+export interface GalleryFilters {
+  provider: StorageProviderId | 'all';
+  format: string | 'all';
+  size: SizeRange;
+  date: DateRange;
+  album: string | 'all';
+  tag: string | 'all';
+}
+
+export const DEFAULT_FILTERS: GalleryFilters = {
+  provider: 'all',
+  format: 'all',
+  size: 'any',
+  date: 'any',
+  album: 'all',
+  tag: 'all',
+};
+
+const MB = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+export const SIZE_RANGES: Record<SizeRange, { label: string; min: number; max: number }> = {
+  any: { label: 'Any size', min: 0, max: Infinity },
+  small: { label: 'Under 1 MB', min: 0, max: MB },
+  medium: { label: '1–5 MB', min: MB, max: 5 * MB },
+  large: { label: 'Over 5 MB', min: 5 * MB, max: Infinity },
+};
+
+export const DATE_RANGES: Record<DateRange, string> = {
+  any: 'Any time',
+  today: 'Today',
+  week: 'Last 7 days',
+  month: 'Last 30 days',
+  year: 'This year',
+};
+
+export const SORT_LABELS: Record<SortOption, string> = {
+  newest: 'Newest',
+  oldest: 'Oldest',
+  largest: 'Largest',
+  name: 'Name',
+};
+
+// Normalises "jpeg"/"jpg" and falls back to the file extension when the provider gave no format
+export const getImageFormat = (image: LibraryImage) => {
+  const format = (image.format ?? image.name.split('.').pop() ?? '').toLowerCase();
+  return format === 'jpeg' ? 'jpg' : format;
+};
+
+const getDateRangeStart = (range: DateRange, now = new Date()) => {
+  switch (range) {
+    case 'today':
+      return new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime();
+    case 'week':
+      return now.getTime() - 7 * DAY;
+    case 'month':
+      return now.getTime() - 30 * DAY;
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1).getTime();
+    default:
+      return 0;
+  }
+};
+
+// Search covers the name, tags and upload date (both the local format and YYYY-MM-DD)
+const matchesQuery = (image: LibraryImage, query: string) => {
+  if (!query) return true;
+  const uploadedAt = new Date(image.uploadedAt);
+  const haystack = [
+    image.name,
+    ...(image.tags ?? []),
+    uploadedAt.toLocaleDateString(),
+    image.uploadedAt.slice(0, 10),
+  ].join(' ').toLowerCase();
+  return query.toLowerCase().split(/\s+/).every((term) => haystack.includes(term));
+};
+
+const comparators: Record<SortOption, (a: LibraryImage, b: LibraryImage) => number> = {
+  newest: (a, b) => new Date(b.uploadedAt).getTime() - new Date(a.uploadedAt).getTime(),
+  oldest: (a, b) => new Date(a.uploadedAt).getTime() - new Date(b.uploadedAt).getTime(),
+  largest: (a, b) => (b.bytes ?? 0) - (a.bytes ?? 0),
+  name: (a, b) => a.name.localeCompare(b.name),
+};
+
+export const filterImages = (
+  images: LibraryImage[],
+  query: string,
+  filters: GalleryFilters,
+  sort: SortOption
+): LibraryImage[] => {
+  const size = SIZE_RANGES[filters.size];
+  const since = getDateRangeStart(filters.date);
+
+  return images
+    .filter((image) => {
+      if (filters.provider !== 'all' && image.provider !== filters.provider) return false;
+      if (filters.format !== 'all' && getImageFormat(image) !== filters.format) return false;
+      if (filters.album !== 'all' && image.album !== filters.album) return false;
+      if (filters.tag !== 'all' && !image.tags?.includes(filters.tag)) return false;
+      if (filters.size !== 'any' && (image.bytes === undefined || image.bytes < size.min || image.bytes >= size.max)) {
+        return false;
+      }
+      if (new Date(image.uploadedAt).getTime() < since) return false;
+      return matchesQuery(image, query.trim());
+    })
+    .sort(comparators[sort]);
+};
+
+export const countActiveFilters = (filters: GalleryFilters) =>
+  (Object.keys(filters) as (keyof GalleryFilters)[]).filter((key) => filters[key] !== DEFAULT_FILTERS[key]).length;
+
+// Every tag in use, most used first
+export const collectTags = (images: LibraryImage[]) => {
+  const counts = new Map<string, number>();
+  images.forEach((image) => image.tags?.forEach((tag) => counts.set(tag, (counts.get(tag) ?? 0) + 1)));
+  return Array.from(counts.keys()).sort((a, b) => counts.get(b)! - counts.get(a)! || a.localeCompare(b));
+};